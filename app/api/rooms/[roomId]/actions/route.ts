@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { adminAuth } from "@/lib/firebaseAdmin";
+import { parseCommand, runRoomCommand } from "@/lib/roomService";
+import { adminStore } from "@/lib/server/adminStore";
+
+/**
+ * POST /api/rooms/{roomId}/actions
+ * header: Authorization: Bearer <Firebase ID token>
+ * body: RoomCommand (ดู lib/roomApi.ts)
+ */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  const { roomId } = await params;
+
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token)
+    return NextResponse.json({ error: "ต้อง login ก่อน" }, { status: 401 });
+
+  let uid: string;
+  try {
+    uid = (await adminAuth().verifyIdToken(token)).uid;
+  } catch {
+    return NextResponse.json({ error: "token ไม่ถูกต้อง" }, { status: 401 });
+  }
+
+  const command = parseCommand(await req.json().catch(() => null));
+  if (!command)
+    return NextResponse.json({ error: "คำสั่งไม่ถูกต้อง" }, { status: 400 });
+
+  const error = await runRoomCommand(adminStore(), roomId, uid, command);
+  if (error) return NextResponse.json({ error }, { status: 409 });
+  return NextResponse.json({ ok: true });
+}
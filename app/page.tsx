@@ -2,29 +2,42 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { ref, set } from "firebase/database";
-import { db } from "@/lib/firebase";
+import { roomStore, isLocalStore } from "@/lib/store";
 import { useAuth } from "@/lib/useAuth";
+import { useProfile } from "@/lib/useProfile";
 import { genRoomCode } from "@/lib/room";
+import { ProfileEditor } from "@/components/profile-editor";
+import { HouseRulesForm } from "@/components/house-rules-form";
+import { DEFAULT_RULES, type HouseRules } from "@/lib/engine";
 
 export default function Home() {
   const router = useRouter();
-  const [name, setName] = useState("Pun");
-  const { uid, loading } = useAuth();
+  const { uid, loading, isAnonymous, linkAccount } = useAuth();
+  const { profile, saveProfile } = useProfile(uid);
+  const [rules, setRules] = useState<HouseRules>(DEFAULT_RULES);
 
   const createRoom = async () => {
     if (!uid) return;
 
     const roomId = genRoomCode();
-    await set(ref(db, `rooms/${roomId}`), {
+    await roomStore.set(`rooms/${roomId}`, {
       createdAt: Date.now(),
       status: "lobby",
       hostUid: uid,
       slots: { 1: null, 2: null, 3: null, 4: null },
+      rules,
       game: { phase: "lobby", startedAt: null },
     });
 
-    router.push(`/r/${roomId}?name=${encodeURIComponent(name)}`);
+    router.push(`/r/${roomId}`);
+  };
+
+  const link = async () => {
+    try {
+      await linkAccount();
+    } catch (e) {
+      alert(e instanceof Error ? e.message : "ผูกบัญชีไม่สำเร็จ");
+    }
   };
 
   return (
@@ -34,15 +47,29 @@ export default function Home() {
         Create room → ส่งลิงก์ให้เพื่อน → เลือก Slot 1-4 → Ready ครบถึงเริ่ม
       </p>
 
-      <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
-        <input
-          value={name}
-          onChange={(e) => setName(e.target.value)}
-          placeholder="your name"
+      <div style={{ marginTop: 16 }}>
+        <ProfileEditor
+          profile={profile}
+          onSave={saveProfile}
+          disabled={loading || !uid}
         />
+      </div>
+
+      <div style={{ marginTop: 16 }}>
+        <h3 style={{ margin: "8px 0" }}>กติกาบ้าน</h3>
+        <HouseRulesForm
+          rules={rules}
+          onChange={(patch) => setRules((r) => ({ ...r, ...patch }))}
+        />
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
         <button onClick={createRoom} disabled={loading || !uid}>
           {loading ? "Signing in..." : "Create room"}
         </button>
+        {!isLocalStore && uid && isAnonymous && (
+          <button onClick={link}>Link Google account</button>
+        )}
       </div>
     </main>
   );
@@ -1,29 +1,46 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { useParams, useSearchParams, useRouter } from "next/navigation";
-import {
-  ref,
-  onValue,
-  runTransaction,
-  update,
-  get,
-  onDisconnect,
-  set as fbSet,
-} from "firebase/database";
-import { db } from "@/lib/firebase";
+import { useParams, useRouter } from "next/navigation";
+import { roomStore } from "@/lib/store";
 import { useAuth } from "@/lib/useAuth";
-
-type Slot = null | { uid: string; name: string; ready: boolean };
+import { usePresence } from "@/lib/usePresence";
+import { useProfile } from "@/lib/useProfile";
+import { ProfileEditor } from "@/components/profile-editor";
+import { HouseRulesForm } from "@/components/house-rules-form";
+import {
+  BOT_UID_PREFIX,
+  type Presence,
+  countSpectators,
+} from "@/lib/roomService";
+import {
+  type BotLevel,
+  BOT_LEVELS,
+  type HouseRules,
+  normalizeRules,
+} from "@/lib/engine";
+import { type RoomCommand, type SlotNo, sendRoomCommand } from "@/lib/roomApi";
+
+type Slot = null | {
+  uid: string;
+  name: string;
+  color?: string;
+  ready: boolean;
+  bot?: BotLevel;
+};
 
 // รองรับห้องเก่า
 type Room = {
   createdAt?: number;
   status?: "lobby" | "playing";
   hostUid?: string;
+  locked?: boolean; // host ล็อกห้อง: คนใหม่นั่งไม่ได้
+  kicked?: Record<string, true>; // uid ที่ถูกเตะ นั่งไม่ได้อีก
   slots?: Record<"1" | "2" | "3" | "4", Slot>;
+  presence?: Record<string, Presence>;
+  rules?: Partial<HouseRules>; // กติกาบ้าน (ขาด field ไหน = ค่า default)
   game?: {
-    phase?: "lobby" | "playing";
+    phase?: "lobby" | "playing" | "results";
     startedAt?: number | null;
     // engine state (optional)
     turnUid?: string | null;
@@ -48,31 +65,28 @@ const EMPTY_SLOTS: Record<"1" | "2" | "3" | "4", Slot> = {
 
 export default function RoomPage() {
   const { roomId } = useParams<{ roomId: string }>();
-  const search = useSearchParams();
   const router = useRouter();
   const { uid, loading } = useAuth();
 
-  const name = useMemo(() => search.get("name") || "Player", [search]);
+  const { profile, loaded: profileLoaded, saveProfile } = useProfile(uid);
+  const name = profile.name;
 
   const [room, setRoom] = useState<Room | null>(null);
-  const [mySlot, setMySlot] = useState<1 | 2 | 3 | 4 | null>(null);
-
-  const roomRef = useMemo(() => ref(db, `rooms/${roomId}`), [roomId]);
 
   // realtime room
   useEffect(() => {
-    const unsub = onValue(roomRef, (snap) =>
-      setRoom((snap.val() as Room) ?? null)
+    const unsub = roomStore.subscribe(`rooms/${roomId}`, (value) =>
+      setRoom((value as Room) ?? null)
     );
     return () => unsub();
-  }, [roomRef]);
+  }, [roomId]);
 
   // safe normalize
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const status: "lobby" | "playing" = (room?.status ?? "lobby") as any;
-  const phase: "lobby" | "playing" =
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    ((room?.game?.phase ?? "lobby") as any) ?? "lobby";
+  const locked = room?.locked === true;
+  const kicked = !!uid && room?.kicked?.[uid] === true;
+  const phase: "lobby" | "playing" | "results" = room?.game?.phase ?? "lobby";
   const slots: Record<"1" | "2" | "3" | "4", Slot> = useMemo(() => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const raw: any = room?.slots ?? {};
@@ -97,49 +111,43 @@ export default function RoomPage() {
     return s as Record<"1" | "2" | "3" | "4", Slot>;
   }, [room?.slots]);
 
-  // ✅ redirect all players to /play when phase=playing
-  useEffect(() => {
-    if (!room) return;
-    if (phase !== "playing") return;
-
-    const qs = new URLSearchParams({ name }).toString();
-    router.replace(`/r/${roomId}/play?${qs}`);
-  }, [phase, room, roomId, name, router]);
+  // ที่นั่งของเราอ่านจาก slots เสมอ รีเฟรชหน้าแล้วยังรู้ว่านั่งตรงไหน
+  const mySlot = useMemo(
+    () =>
+      ([1, 2, 3, 4] as const).find(
+        (n) => !!uid && slots[String(n) as "1"]?.uid === uid
+      ) ?? null,
+    [slots, uid]
+  );
 
-  // ✅ auto migrate for old rooms
+  // ชื่อในเกมมาจาก slot: แก้โปรไฟล์ระหว่างนั่งอยู่ก็อัปเดตที่นั่งตาม
+  const mySlotData = mySlot ? slots[String(mySlot) as "1"] : null;
   useEffect(() => {
-    if (!room) return;
-
-    const needSlots = !room.slots;
-    const needGame = !room.game;
-    const needStatus = !room.status;
-    const needCreatedAt = !room.createdAt;
-
-    if (!needSlots && !needGame && !needStatus && !needCreatedAt) return;
-
-    update(ref(db, `rooms/${roomId}`), {
-      slots: room.slots ?? { "1": null, "2": null, "3": null, "4": null },
-      game: room.game ?? { phase: "lobby", startedAt: null },
-      status: room.status ?? "lobby",
-      createdAt: room.createdAt ?? Date.now(),
-    });
-  }, [room, roomId]);
+    if (!uid || !mySlot || !profileLoaded || status !== "lobby") return;
+    if (
+      mySlotData?.name === profile.name &&
+      mySlotData?.color === profile.color
+    )
+      return;
+
+    void roomStore.transact<Slot>(
+      `rooms/${roomId}/slots/${mySlot}`,
+      (current) => {
+        if (current?.uid !== uid) return; // abort
+        return { ...current, name: profile.name, color: profile.color };
+      }
+    );
+  }, [uid, mySlot, mySlotData, profile, profileLoaded, status, roomId]);
 
-  // presence (optional)
+  // ✅ redirect all players to /play when phase=playing (หรือจบรอบแล้วรอดูผล)
   useEffect(() => {
-    if (!uid) return;
-    const connectedRef = ref(db, ".info/connected");
-    const presenceRef = ref(db, `rooms/${roomId}/presence/${uid}`);
+    if (!room) return;
+    if (phase !== "playing" && phase !== "results") return;
 
-    const unsub = onValue(connectedRef, async (snap) => {
-      if (snap.val() === true) {
-        await fbSet(presenceRef, { online: true, at: Date.now(), name });
-        await onDisconnect(presenceRef).remove();
-      }
-    });
+    router.replace(`/r/${roomId}/play`);
+  }, [phase, room, roomId, router]);
 
-    return () => unsub();
-  }, [uid, roomId, name]);
+  usePresence(roomId, uid, name);
 
   const roomLink = useMemo(() => {
     if (typeof window === "undefined") return "";
@@ -154,32 +162,34 @@ export default function RoomPage() {
   const leaveSlot = async () => {
     if (!uid || !mySlot) return;
 
-    const slotRef = ref(db, `rooms/${roomId}/slots/${mySlot}`);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await runTransaction(slotRef, (current: any) => {
-      if (current?.uid === uid) return null;
-      return current;
-    });
-
-    setMySlot(null);
+    await roomStore.transact<Slot>(
+      `rooms/${roomId}/slots/${mySlot}`,
+      (current) => {
+        if (current?.uid === uid) return null;
+        return current;
+      }
+    );
   };
 
   const claimSlot = async (slot: 1 | 2 | 3 | 4) => {
     if (!uid) return;
     if (status !== "lobby") return alert("Game already started.");
+    if (locked && !iAmHost) return alert("ห้องถูกล็อกอยู่");
+    if (kicked) return alert("คุณถูกเตะออกจากห้องนี้");
 
     if (mySlot && mySlot !== slot) await leaveSlot();
 
-    const slotRef = ref(db, `rooms/${roomId}/slots/${slot}`);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const result = await runTransaction(slotRef, (current: any) => {
-      if (current === null) return { uid, name, ready: false };
-      if (current?.uid === uid) return current; // refresh ok
-      return; // abort
-    });
+    const result = await roomStore.transact<Slot>(
+      `rooms/${roomId}/slots/${slot}`,
+      (current) => {
+        if (current === null)
+          return { uid, name, color: profile.color, ready: false };
+        if (current?.uid === uid) return current; // refresh ok
+        return; // abort
+      }
+    );
 
-    if (!result.committed) return alert(`Slot ${slot} is taken.`);
-    setMySlot(slot);
+    if (!result.committed) alert(`Slot ${slot} is taken.`);
   };
 
   const toggleReady = async () => {
@@ -187,12 +197,13 @@ export default function RoomPage() {
     if (!mySlot) return alert("Pick a slot first.");
     if (status !== "lobby") return;
 
-    const slotRef = ref(db, `rooms/${roomId}/slots/${mySlot}`);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    await runTransaction(slotRef, (current: any) => {
-      if (!current || current.uid !== uid) return current;
-      return { ...current, ready: !current.ready };
-    });
+    await roomStore.transact<Slot>(
+      `rooms/${roomId}/slots/${mySlot}`,
+      (current) => {
+        if (!current || current.uid !== uid) return current;
+        return { ...current, ready: !current.ready };
+      }
+    );
   };
 
   const currentPlayers = useMemo(() => {
@@ -202,9 +213,15 @@ export default function RoomPage() {
   }, [slots]);
 
   const playerCount = currentPlayers.length;
+  const spectatorCount = countSpectators(
+    room?.presence,
+    currentPlayers.map((p) => p.uid)
+  );
+  // ห้องเต็มแล้วและเรายังไม่ได้นั่ง = ดูได้อย่างเดียว
+  const spectating = playerCount === 4 && !mySlot;
   const everyoneReady =
     playerCount > 0 && currentPlayers.every((p) => p.ready === true);
-  const iAmSlot1 = slots["1"]?.uid === uid;
+  const iAmHost = !!uid && room?.hostUid === uid;
 
   // ✅ ตาม flow เราเริ่มเกมเมื่อพร้อม 2–4 คนและ ready ครบ
   const canStart =
@@ -214,81 +231,60 @@ export default function RoomPage() {
     playerCount <= 4 &&
     everyoneReady;
 
-  const startGameBySlot1 = async () => {
+  const startGameByHost = async () => {
     if (!uid) return;
-    if (!iAmSlot1) return alert("Start ได้เฉพาะ Player 1 เท่านั้น");
+    if (!iAmHost) return alert("Start ได้เฉพาะเจ้าของห้องเท่านั้น");
     if (!canStart)
       return alert("Start ไม่ได้: ต้องมี 2–4 คน และทุกคน Ready ครบ");
 
-    // re-check from server (กัน race)
-    const snap = await get(roomRef);
-    const latest = (snap.val() as Room) ?? null;
-    if (!latest) return;
+    // ✅ server เช็คซ้ำกับข้อมูลล่าสุด (กัน race) แล้วสร้างแมตช์ + แจกไพ่ให้
+    const { error } = await sendRoomCommand(roomId, { type: "start" });
+    if (error) alert(error);
+  };
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const raw: any = latest.slots ?? {};
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const latestSlots: any = {
-      "1": raw["1"] ?? raw[1] ?? null,
-      "2": raw["2"] ?? raw[2] ?? null,
-      "3": raw["3"] ?? raw[3] ?? null,
-      "4": raw["4"] ?? raw[4] ?? null,
-    };
-
-    const latestPlayers = [
-      latestSlots["1"],
-      latestSlots["2"],
-      latestSlots["3"],
-      latestSlots["4"],
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    ].filter((p: any) => p && typeof p.ready === "boolean");
-
-    const latestCount = latestPlayers.length;
-    const latestEveryoneReady =
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      latestCount > 0 && latestPlayers.every((p: any) => p.ready === true);
-    const latestStatus = (latest.status ?? "lobby") as "lobby" | "playing";
-    const latestPhase = (latest.game?.phase ?? "lobby") as "lobby" | "playing";
-    const latestSlot1Uid = latestSlots["1"]?.uid;
-
-    if (latestSlot1Uid !== uid)
-      return alert("Start ได้เฉพาะ Player 1 เท่านั้น");
+  const rules = useMemo(() => normalizeRules(room?.rules), [room?.rules]);
 
-    if (
-      !(
-        latestStatus === "lobby" &&
-        latestPhase === "lobby" &&
-        latestCount >= 2 &&
-        latestCount <= 4 &&
-        latestEveryoneReady
-      )
-    ) {
-      return alert("Start ไม่ได้: ต้องมี 2–4 คน และทุกคน Ready ครบ");
-    }
-
-    // ✅ init engine state (แจก/สับไพ่จริงจะไปทำในหน้า /play แบบ transaction)
-    await update(ref(db, `rooms/${roomId}`), {
-      status: "playing",
-      game: {
-        phase: "playing",
-        startedAt: Date.now(),
-        turnUid: latestSlot1Uid ?? null,
-        step: "draw",
-        headCardId: null,
-        stock: [],
-        discard: [],
-        tableMelds: [],
-        players: {},
-        cardOrigins: {},
-        winnerUid: null,
-        endedAt: null,
-      },
-    });
+  const setRules = async (patch: Partial<HouseRules>) => {
+    if (!iAmHost || status !== "lobby") return;
+    await roomStore.update(`rooms/${roomId}/rules`, patch);
+  };
+
+  /** host เพิ่มบอทลงที่นั่งว่าง (บอท Ready ตลอด) */
+  const addBot = async (slot: 1 | 2 | 3 | 4, level: BotLevel) => {
+    if (!iAmHost || status !== "lobby") return;
+
+    const result = await roomStore.transact<Slot>(
+      `rooms/${roomId}/slots/${slot}`,
+      (current) => {
+        if (current !== null) return; // abort
+        return {
+          uid: `${BOT_UID_PREFIX}${crypto.randomUUID().slice(0, 8)}`,
+          name: `Bot ${slot}`,
+          ready: true,
+          bot: level,
+        };
+      }
+    );
+    if (!result.committed) alert(`Slot ${slot} is taken.`);
+  };
+
+  const removeBot = async (slot: 1 | 2 | 3 | 4) => {
+    if (!iAmHost || status !== "lobby") return;
+    await roomStore.transact<Slot>(`rooms/${roomId}/slots/${slot}`, (current) =>
+      current?.bot ? null : current
+    );
+  };
+
+  /** คำสั่งของ host: เตะ/ล็อก/ส่งต่อ host/ย้ายที่นั่ง (server เช็คสิทธิ์อีกที) */
+  const hostCommand = async (command: RoomCommand) => {
+    const { error } = await sendRoomCommand(roomId, command);
+    if (error) alert(error);
   };
 
-  const renderSlot = (slotNo: 1 | 2 | 3 | 4) => {
+  const renderSlot = (slotNo: SlotNo) => {
     const slot = slots[String(slotNo) as "1"] ?? null;
     const takenByMe = slot?.uid === uid;
+    const isHostSeat = !!slot && slot.uid === room?.hostUid;
 
     return (
       <div
@@ -307,15 +303,78 @@ export default function RoomPage() {
           <div style={{ fontWeight: 700 }}>Player {slotNo}</div>
           <div style={{ color: "#666", fontSize: 14 }}>
             {slot
-              ? `${slot.name} ${slot.ready ? "✅ Ready" : "⌛ Not ready"}`
+              ? slot.bot
+                ? `🤖 ${slot.name} (${slot.bot})`
+                : `${room?.presence?.[slot.uid]?.online ? "🟢" : "⚪"} ${
+                    slot.name
+                  }${isHostSeat ? " 👑" : ""} ${
+                    slot.ready ? "✅ Ready" : "⌛ Not ready"
+                  }`
               : "Empty"}
           </div>
         </div>
 
         {status === "lobby" && !loading && uid && (
           <div style={{ display: "flex", gap: 8 }}>
-            {!slot && <button onClick={() => claimSlot(slotNo)}>Take</button>}
+            {!slot && (!locked || iAmHost) && !kicked && (
+              <button onClick={() => claimSlot(slotNo)}>Take</button>
+            )}
             {takenByMe && <button onClick={leaveSlot}>Leave</button>}
+            {iAmHost && !slot && (
+              <select
+                aria-label={`Add bot to slot ${slotNo}`}
+                value=""
+                onChange={(e) => addBot(slotNo, e.target.value as BotLevel)}
+              >
+                <option value="">+ Bot</option>
+                {BOT_LEVELS.map((level) => (
+                  <option key={level} value={level}>
+                    {level}
+                  </option>
+                ))}
+              </select>
+            )}
+            {iAmHost && slot?.bot && (
+              <button onClick={() => removeBot(slotNo)}>Remove bot</button>
+            )}
+            {iAmHost && slot && !slot.bot && !takenByMe && (
+              <>
+                <button
+                  onClick={() => hostCommand({ type: "kick", slot: slotNo })}
+                >
+                  Kick
+                </button>
+                <button
+                  onClick={() =>
+                    hostCommand({ type: "transferHost", targetUid: slot.uid })
+                  }
+                >
+                  Make host
+                </button>
+              </>
+            )}
+            {iAmHost && slot && (
+              <select
+                aria-label={`Move ${slot.name} to another slot`}
+                value=""
+                onChange={(e) =>
+                  hostCommand({
+                    type: "moveSeat",
+                    from: slotNo,
+                    to: Number(e.target.value) as SlotNo,
+                  })
+                }
+              >
+                <option value="">Move to…</option>
+                {([1, 2, 3, 4] as const)
+                  .filter((n) => n !== slotNo)
+                  .map((n) => (
+                    <option key={n} value={n}>
+                      Slot {n}
+                    </option>
+                  ))}
+              </select>
+            )}
           </div>
         )}
       </div>
@@ -350,11 +409,39 @@ export default function RoomPage() {
           <div style={{ color: "#666" }}>
             Status: <b>{status}</b> | Phase: <b>{phase}</b> | Players:{" "}
             <b>{playerCount}/4</b>
+            {spectatorCount > 0 && <> | 👀 ผู้ชม: {spectatorCount}</>}
+          </div>
+          {kicked && (
+            <div style={{ marginTop: 4, color: "#b91c1c" }}>
+              คุณถูก host เตะออกจากห้องนี้ — ดูได้อย่างเดียว
+            </div>
+          )}
+          {spectating && (
+            <div style={{ marginTop: 4, color: "#b45309" }}>
+              ห้องเต็มแล้ว — คุณดูได้ในฐานะผู้ชม
+              เมื่อเริ่มเกมจะเห็นโต๊ะแต่ไม่เห็นไพ่ในมือใคร
+            </div>
+          )}
+          <div style={{ marginTop: 8 }}>
+            <ProfileEditor
+              profile={profile}
+              onSave={saveProfile}
+              disabled={loading || !uid}
+            />
           </div>
-          <div style={{ color: "#999", fontSize: 13 }}>You: {name}</div>
         </div>
 
         <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          {locked && <span title="ห้องถูกล็อก">🔒 Locked</span>}
+          {iAmHost && (
+            <button
+              onClick={() =>
+                hostCommand({ type: "setLocked", locked: !locked })
+              }
+            >
+              {locked ? "Unlock room" : "Lock room"}
+            </button>
+          )}
           <button onClick={copyLink}>Copy Link</button>
         </div>
       </div>
@@ -381,16 +468,26 @@ export default function RoomPage() {
             {myReady ? "Unready" : "Ready"}
           </button>
 
-          {iAmSlot1 && status === "lobby" && (
-            <button onClick={startGameBySlot1} disabled={!canStart}>
-              Start (Player 1 only)
+          {iAmHost && status === "lobby" && (
+            <button onClick={startGameByHost} disabled={!canStart}>
+              Start (host only)
             </button>
           )}
 
           <span style={{ color: "#666" }}>
-            เงื่อนไข: 2–4 คน และทุกคน Ready — เริ่มได้เฉพาะ Player 1
+            เงื่อนไข: 2–4 คน และทุกคน Ready — เริ่มได้เฉพาะเจ้าของห้อง
           </span>
         </div>
+
+        <div style={{ marginTop: 12 }}>
+          <h3 style={{ margin: "8px 0" }}>กติกาบ้าน</h3>
+          <HouseRulesForm
+            rules={rules}
+            onChange={setRules}
+            disabled={!iAmHost || status !== "lobby"}
+            playerCount={playerCount}
+          />
+        </div>
       </div>
     </main>
   );
@@ -1,143 +1,137 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import { useParams, useSearchParams, useRouter } from "next/navigation";
-import { ref, onValue, runTransaction } from "firebase/database";
-import { db } from "@/lib/firebase";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { roomStore } from "@/lib/store";
 import { useAuth } from "@/lib/useAuth";
+import { usePresence } from "@/lib/usePresence";
+import { useProfile } from "@/lib/useProfile";
+import { useHandOrder } from "@/lib/useHandOrder";
+import { useToasts } from "@/lib/useToasts";
+import { sendRoomCommand } from "@/lib/roomApi";
+import { type Presence, countSpectators, isAway } from "@/lib/roomService";
 
 // shadcn/ui (ถ้าคุณมีอยู่แล้ว)
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ToastList } from "@/components/toast-list";
 
 // dnd-kit
 import {
+  type Announcements,
   DndContext,
+  KeyboardSensor,
   PointerSensor,
   useDroppable,
-  useDraggable,
   useSensor,
   useSensors,
   DragEndEvent,
 } from "@dnd-kit/core";
+import {
+  SortableContext,
+  arrayMove,
+  rectSortingStrategy,
+  sortableKeyboardCoordinates,
+  useSortable,
+} from "@dnd-kit/sortable";
+import { CSS } from "@dnd-kit/utilities";
 
-type Suit = "C" | "D" | "H" | "S";
-type CardT = { id: string; r: number; s: Suit }; // 1..13
-
-type Slot = null | { uid: string; name: string; ready: boolean };
-
-type DiscardCard = CardT & { fromUid: string | null; at: number };
-
-type Origin = { kind: "stock" | "discard"; fromUid: string | null };
-
-type MeldKind = "set" | "run";
-type Meld = {
-  id: string;
-  ownerUid: string;
-  kind: MeldKind;
-  cards: CardT[];
-  createdAt: number;
-};
-
-type GamePlayer = {
+import {
+  type CardT,
+  type HandSort,
+  type Match,
+  type MeldSuggestion,
+  type Move,
+  type PenaltyReason,
+  type PublicGameState,
+  type PublicMove,
+  type BotLevel,
+  type Suit,
+  cardFromId,
+  cardLabel,
+  cardName,
+  normalizeMatch,
+  normalizePublicGame,
+  orderHand,
+  sortHand,
+  standings,
+  suggestMelds,
+  turnDeadline,
+  UNDO_DISCARD_MS,
+} from "@/lib/engine";
+
+type Slot = null | {
+  uid: string;
   name: string;
-  hand: CardT[];
-  hasMelded: boolean;
-  score: number;
-  scoredCards: CardT[];
-  lastTurnTookDiscardFromUid?: string | null;
-};
-
-type GameState = {
-  phase: "playing";
-  startedAt: number | null;
-
-  turnUid: string | null;
-  step: "draw" | "discard";
-
-  headCardId: string | null; // หัว (ฐาน)
-  stock: CardT[];
-  discard: DiscardCard[]; // discard[0] = head เสมอ (หลัง init)
-
-  cardOrigins: Record<string, Origin>;
-  tableMelds: Meld[];
-  players: Record<string, GamePlayer>;
-
-  winnerUid: string | null;
-  endedAt: number | null;
+  color?: string;
+  ready: boolean;
+  bot?: BotLevel;
 };
 
 type Room = {
   status?: "lobby" | "playing";
+  hostUid?: string;
+  handNo?: number | null; // ตาปัจจุบัน — จบแล้วดู replay ได้
+  undo?: { uid: string; until: number | null } | null; // ใครย้อนท่าล่าสุดได้
+  moves?: PublicMove[]; // ท่าล่าสุดของตานี้ (ประกาศให้ screen reader)
   slots?: Record<"1" | "2" | "3" | "4", Slot>;
-  game?: Partial<GameState>;
+  presence?: Record<string, Presence>;
+  game?:
+    | Partial<PublicGameState>
+    | { phase: "lobby"; startedAt: number | null };
+  match?: Match | null;
 };
 
-const EMPTY_SLOTS: Record<"1" | "2" | "3" | "4", Slot> = {
-  "1": null,
-  "2": null,
-  "3": null,
-  "4": null,
-};
+/** หมดเวลาแล้ว server ยังไม่รับ (นาฬิกาไม่ตรงกัน) ส่ง timeout ซ้ำทุกเท่านี้ */
+const TIMEOUT_RETRY_MS = 3000;
 
-function cardLabel(c: CardT) {
-  const r =
-    c.r === 1
-      ? "A"
-      : c.r === 11
-      ? "J"
-      : c.r === 12
-      ? "Q"
-      : c.r === 13
-      ? "K"
-      : String(c.r);
-  const s = c.s === "C" ? "♣" : c.s === "D" ? "♦" : c.s === "H" ? "♥" : "♠";
-  return `${r}${s}`;
-}
+const PENALTY_LABEL: Record<PenaltyReason, string> = {
+  layOffFeed: "ทิ้งให้ฝาก",
+  knockFeed: "ทิ้งให้น็อค",
+  spetoFeed: "ทิ้งสเปโตให้เกิด",
+};
 
 function suitColor(s: Suit) {
   return s === "H" || s === "D" ? "text-red-600" : "text-slate-900";
 }
 
-function makeDeck(): CardT[] {
-  const suits: Suit[] = ["C", "D", "H", "S"];
-  const deck: CardT[] = [];
-  for (const s of suits) {
-    for (let r = 1; r <= 13; r++)
-      deck.push({ id: `${s}-${r}-${crypto.randomUUID()}`, r, s });
-  }
-  return deck;
+/** ชื่อไพ่สำหรับ screen reader (+ หัว / อยู่ในท่าที่แนะนำ) */
+function cardAriaLabel(c: CardT, head?: boolean, suggested?: boolean) {
+  return [cardName(c), head && "(หัว)", suggested && "(เกิดได้)"]
+    .filter(Boolean)
+    .join(" ");
 }
 
-function shuffle<T>(arr: T[]) {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
+/** ข้อความของท่าที่เพิ่งเกิดขึ้น (ชื่อไพ่แบบอ่านออกเสียงได้) */
+function describeMove(m: PublicMove, name: (uid: string) => string) {
+  const cards = m.cardIds.map((id) => {
+    const c = cardFromId(id);
+    return c ? cardName(c) : "?";
+  });
+  const who = name(m.uid);
+  switch (m.type) {
+    case "drawStock":
+      return `${who} จั่วจากกองจั่ว`;
+    case "pickUp":
+      return cards.length > 1
+        ? `${who} เก็บ ${cards[0]} เกิดกับ ${cards.slice(1).join(", ")}`
+        : `${who} เก็บ ${cards[0] ?? "?"} ไปฝาก`;
+    case "discard":
+      return `${who} ทิ้ง ${cards[0] ?? "?"}`;
+    case "layMeld":
+      return `${who} เกิด ${cards.join(", ")}`;
+    case "layOff":
+      return `${who} ฝาก ${cards[0] ?? "?"}`;
+    case "timeout":
+      return `หมดเวลา — ระบบเล่นแทน ${who}${
+        cards.length ? ` (ทิ้ง ${cards[0]})` : ""
+      }`;
+    case "abandon":
+      return `${who} (host) สั่งจบตานี้`;
+    case "undo":
+      return `${who} ย้อนท่าล่าสุด`;
   }
-  return a;
-}
-
-function isValidSet(cards: CardT[]) {
-  if (cards.length < 3) return false;
-  const r = cards[0].r;
-  if (!cards.every((c) => c.r === r)) return false;
-  const suits = new Set(cards.map((c) => c.s));
-  return suits.size === cards.length;
-}
-function isValidRun(cards: CardT[]) {
-  if (cards.length < 3) return false;
-  const s = cards[0].s;
-  if (!cards.every((c) => c.s === s)) return false;
-  const rs = [...cards.map((c) => c.r)].sort((a, b) => a - b);
-  for (let i = 1; i < rs.length; i++) if (rs[i] !== rs[i - 1] + 1) return false;
-  return true;
-}
-function classifyMeld(cards: CardT[]): { ok: boolean; kind?: MeldKind } {
-  if (isValidSet(cards)) return { ok: true, kind: "set" };
-  if (isValidRun(cards)) return { ok: true, kind: "run" };
-  return { ok: false };
 }
 
 /** ---------- UI: Card component ---------- */
@@ -145,32 +139,49 @@ function PlayingCard({
   c,
   head,
   selected,
+  suggested,
   onClick,
   small,
 }: {
   c: CardT;
   head?: boolean;
   selected?: boolean;
+  suggested?: boolean; // อยู่ในท่าที่แนะนำ
   onClick?: () => void;
   small?: boolean;
 }) {
   return (
     <div
       onClick={onClick}
+      // คลิกได้ = ปุ่ม (Enter/Space) ไม่งั้นเป็นภาพที่มีชื่อไพ่
+      role={onClick ? "button" : "img"}
+      tabIndex={onClick ? 0 : undefined}
+      aria-pressed={onClick ? !!selected : undefined}
+      aria-label={cardAriaLabel(c, head, suggested)}
+      onKeyDown={
+        onClick &&
+        ((e) => {
+          if (e.key !== "Enter" && e.key !== " ") return;
+          e.preventDefault();
+          onClick();
+        })
+      }
       className={[
         "relative select-none rounded-xl border bg-white shadow-sm",
+        "outline-none focus-visible:ring-4 focus-visible:ring-sky-400",
         small ? "h-16 w-12" : "h-24 w-16",
         selected ? "ring-2 ring-slate-900" : "hover:-translate-y-0.5",
+        suggested && !selected ? "ring-2 ring-amber-400" : "",
         "transition",
         "cursor-pointer",
       ].join(" ")}
     >
       {head && (
-        <div className="absolute -top-2 -left-2">
+        <div aria-hidden className="absolute -top-2 -left-2">
           <Badge className="text-[10px] px-2 py-0.5">HEAD</Badge>
         </div>
       )}
-      <div className="p-2 flex flex-col h-full justify-between">
+      <div aria-hidden className="p-2 flex flex-col h-full justify-between">
         <div className={["font-bold text-sm", suitColor(c.s)].join(" ")}>
           {cardLabel(c)}
         </div>
@@ -181,35 +192,88 @@ function PlayingCard({
 }
 
 /** ---------- DnD helpers ---------- */
-function DraggableCard({
+/**
+ * ไพ่ในมือ: ลากสลับตำแหน่งในมือได้ หรือลากออกไปทิ้ง/ฝาก/จัดชุด
+ * คีย์บอร์ด: ลูกศร/Home/End เลื่อนไปใบอื่น, Space เลือก, Enter หยิบไปวาง
+ */
+function SortableCard({
   c,
   head,
   selected,
+  suggested,
   onClick,
 }: {
   c: CardT;
   head?: boolean;
   selected?: boolean;
+  suggested?: boolean;
   onClick?: () => void;
 }) {
-  const { attributes, listeners, setNodeRef, transform, isDragging } =
-    useDraggable({
-      id: `hand:${c.id}`,
-    });
+  const {
+    active,
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id: `hand:${c.id}` });
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // ระหว่างลาก ปุ่มทั้งหมดเป็นของ KeyboardSensor
+    if (!active) {
+      if (e.key === " ") {
+        e.preventDefault();
+        onClick?.();
+        return;
+      }
+      const el = e.currentTarget;
+      const to =
+        e.key === "ArrowLeft" || e.key === "ArrowUp"
+          ? el.previousElementSibling
+          : e.key === "ArrowRight" || e.key === "ArrowDown"
+          ? el.nextElementSibling
+          : e.key === "Home"
+          ? el.parentElement?.firstElementChild
+          : e.key === "End"
+          ? el.parentElement?.lastElementChild
+          : undefined;
+      if (to !== undefined) {
+        e.preventDefault();
+        (to as HTMLElement | null)?.focus();
+        return;
+      }
+    }
+    listeners?.onKeyDown?.(e);
+  };
 
-  const style: React.CSSProperties = transform
-    ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` }
-    : {};
+  const style: React.CSSProperties = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+  };
 
   return (
     <div
       ref={setNodeRef}
       style={style}
-      className={isDragging ? "opacity-70" : ""}
+      className={[
+        "rounded-xl outline-none focus-visible:ring-4 focus-visible:ring-sky-400",
+        isDragging ? "opacity-70" : "",
+      ].join(" ")}
       {...listeners}
       {...attributes}
+      aria-roledescription="ไพ่ในมือ"
+      aria-label={cardAriaLabel(c, head, suggested)}
+      aria-pressed={!!selected}
+      onClick={onClick}
+      onKeyDown={onKeyDown}
     >
-      <PlayingCard c={c} head={head} selected={selected} onClick={onClick} />
+      <PlayingCard
+        c={c}
+        head={head}
+        selected={selected}
+        suggested={suggested}
+      />
     </div>
   );
 }
@@ -245,153 +309,243 @@ function DroppableZone({
   );
 }
 
+/** กองบนโต๊ะ: ลากไพ่จากมือมาวางเพื่อ “ฝาก” */
+function DroppableMeld({
+  id,
+  children,
+}: {
+  id: string;
+  children?: React.ReactNode;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={[
+        "rounded-2xl border p-3",
+        isOver ? "border-white bg-white/20" : "border-white/15 bg-white/5",
+        "transition",
+      ].join(" ")}
+    >
+      {children}
+    </div>
+  );
+}
+
 export default function PlayPage() {
   const { roomId } = useParams<{ roomId: string }>();
-  const search = useSearchParams();
   const router = useRouter();
   const { uid, loading } = useAuth();
-  const name = useMemo(() => search.get("name") || "Player", [search]);
+  const { profile } = useProfile(uid);
+  const name = profile.name;
 
   const [room, setRoom] = useState<Room | null>(null);
+  const [myHand, setMyHand] = useState<CardT[]>([]); // อ่านได้เฉพาะมือตัวเอง
+  const [fromDiscard, setFromDiscard] = useState<string[]>([]); // id ไพ่ในมือที่เก็บมาจากกองกลาง
   const [selected, setSelected] = useState<Record<string, true>>({}); // เลือกไพ่ไว้เกิด
+  const [pickCardId, setPickCardId] = useState<string | null>(null); // ใบในกองกลางที่จะเก็บ
   const [meldTarget, setMeldTarget] = useState<"builder" | "none">("builder");
 
-  const roomRef = useMemo(() => ref(db, `rooms/${roomId}`), [roomId]);
+  useEffect(() => {
+    const unsub = roomStore.subscribe(`rooms/${roomId}`, (value) =>
+      setRoom((value as Room) ?? null)
+    );
+    return () => unsub();
+  }, [roomId]);
 
   useEffect(() => {
-    const unsub = onValue(roomRef, (snap) =>
-      setRoom((snap.val() as Room) ?? null)
+    if (!uid) return;
+    const unsub = roomStore.subscribe(
+      `roomsPrivate/${roomId}/hands/${uid}`,
+      (value) => setMyHand((value as CardT[] | null) ?? [])
     );
     return () => unsub();
-  }, [roomRef]);
+  }, [roomId, uid]);
 
-  const slots = useMemo(
-    () => ({ ...EMPTY_SLOTS, ...(room?.slots ?? {}) } as any),
-    [room?.slots]
-  );
-  const joinedUids = useMemo(() => {
-    const uids = [
-      slots["1"]?.uid,
-      slots["2"]?.uid,
-      slots["3"]?.uid,
-      slots["4"]?.uid,
-    ].filter(Boolean) as string[];
-    return Array.from(new Set(uids));
-  }, [slots]);
+  useEffect(() => {
+    if (!uid) return;
+    const unsub = roomStore.subscribe(
+      `roomsPrivate/${roomId}/fromDiscard/${uid}`,
+      (value) => setFromDiscard((value as string[] | null) ?? [])
+    );
+    return () => unsub();
+  }, [roomId, uid]);
+
+  usePresence(roomId, uid, name);
+  const { handOrder, saveHandOrder } = useHandOrder(roomId, uid);
+  const { toasts, showToast, dismissToast } = useToasts();
 
   const status = room?.status ?? "lobby";
-  const game = (room?.game ?? {}) as Partial<GameState>;
-  const phase = (game.phase ?? "lobby") as any;
+  const phase = room?.game?.phase ?? "lobby";
 
   // guard
   useEffect(() => {
     if (!room) return;
-    if (status !== "playing" || phase !== "playing") {
-      const qs = new URLSearchParams({ name }).toString();
-      router.replace(`/r/${roomId}?${qs}`);
+    if (status !== "playing" || (phase !== "playing" && phase !== "results")) {
+      router.replace(`/r/${roomId}`);
     }
-  }, [room, status, phase, router, roomId, name]);
-
-  const g: GameState | null = useMemo(() => {
-    if (!game || phase !== "playing") return null;
-    return {
-      phase: "playing",
-      startedAt: game.startedAt ?? null,
-      turnUid: game.turnUid ?? null,
-      step: (game.step ?? "draw") as any,
-
-      headCardId: game.headCardId ?? null,
-      stock: (game.stock ?? []) as CardT[],
-      discard: (game.discard ?? []) as DiscardCard[],
-
-      cardOrigins: (game.cardOrigins ?? {}) as Record<string, Origin>,
-      tableMelds: (game.tableMelds ?? []) as Meld[],
-      players: (game.players ?? {}) as Record<string, GamePlayer>,
-
-      winnerUid: (game.winnerUid ?? null) as any,
-      endedAt: (game.endedAt ?? null) as any,
-    };
-  }, [game, phase]);
+  }, [room, status, phase, router, roomId]);
+
+  const g: PublicGameState | null = useMemo(
+    () => normalizePublicGame(room?.game),
+    [room?.game]
+  );
+
+  const match = useMemo(() => normalizeMatch(room?.match), [room?.match]);
 
-  const me = uid && g ? g.players[uid] : undefined;
   const isMyTurn = !!uid && !!g && g.turnUid === uid;
   const ended = !!g?.endedAt || !!g?.winnerUid;
 
-  /** ✅ INIT ใหม่: แจกไพ่ + ตั้ง “หัว” เป็นฐานของกองกลาง (discard[0]) */
+  // นาฬิกาต่อตา: นับถอยหลังทุกวินาทีเมื่อห้องตั้งเวลาไว้
+  const deadline = g ? turnDeadline(g) : null;
+
+  // ที่นั่งที่มีบอทเล่นแทน (บอทที่ host ใส่ หรือคนที่หลุดแล้วถูกแทน)
+  const botUids = useMemo(() => {
+    const out = new Set<string>();
+    for (const slot of Object.values(room?.slots ?? {}))
+      if (slot?.bot) out.add(slot.uid);
+    return out;
+  }, [room?.slots]);
+
+  // สีโปรไฟล์ของแต่ละที่นั่ง (ใส่ไว้ตอนนั่งในล็อบบี้)
+  const seatColors = useMemo(() => {
+    const out: Record<string, string> = {};
+    for (const slot of Object.values(room?.slots ?? {}))
+      if (slot?.color) out[slot.uid] = slot.color;
+    return out;
+  }, [room?.slots]);
+  const presence = room?.presence;
+  // ผู้ชม: ไม่ได้อยู่ในเกม — เห็นแค่ข้อมูลสาธารณะ (ไม่มีไพ่ในมือใคร)
+  const spectating = !!uid && !!g && !g.players[uid];
+  const spectatorCount = useMemo(
+    () =>
+      countSpectators(presence, [
+        ...Object.keys(g?.players ?? {}),
+        ...Object.values(room?.slots ?? {}).flatMap((s) => (s ? [s.uid] : [])),
+      ]),
+    [presence, g?.players, room?.slots]
+  );
+  const someoneOffline =
+    !!g &&
+    Object.keys(g.players).some(
+      (p) => !botUids.has(p) && !presence?.[p]?.online
+    );
+
+  // ย้อนท่าล่าสุดของตัวเองได้ (server เช็คซ้ำ) — ทิ้งแล้วย้อนได้แค่ช่วงสั้น ๆ
+  const myUndo = uid && room?.undo?.uid === uid ? room.undo : null;
+
+  // นับทุกวินาทีเมื่อมีนาฬิกาต่อตา มีคนหลุด (รอช่วงผ่อนผัน) หรือรอย้อนการทิ้ง
+  const [now, setNow] = useState(() => Date.now());
+  const ticking = deadline != null || someoneOffline || myUndo?.until != null;
+  useEffect(() => {
+    if (!ticking) return;
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, [ticking]);
+  const secondsLeft =
+    deadline == null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+  const undoSecondsLeft =
+    myUndo?.until == null
+      ? null
+      : Math.min(
+          UNDO_DISCARD_MS / 1000,
+          Math.max(0, Math.ceil((myUndo.until - now) / 1000))
+        );
+  const canUndo = !!myUndo && undoSecondsLeft !== 0;
+
+  // หมดเวลา: ผู้เล่นคนไหนที่ยังต่ออยู่ก็แจ้ง server ให้เล่นแทน
+  // ส่งซ้ำทุก TIMEOUT_RETRY_MS จนกว่าตาจะเปลี่ยน — นาฬิกาเครื่องเร็วกว่า server ได้
+  // (server ตอบ "ยังไม่หมดเวลา") ไม่แจ้ง error เพราะคนอื่นอาจส่งไปก่อนแล้ว
+  const timeoutSent = useRef<{ deadline: number; at: number } | null>(null);
+  const inGame = !!uid && !!g?.players[uid];
   useEffect(() => {
+    if (!inGame || deadline == null || now < deadline + 1000) return;
+    const last = timeoutSent.current;
+    if (last?.deadline === deadline && now - last.at < TIMEOUT_RETRY_MS) return;
+    timeoutSent.current = { deadline, at: now };
+    void sendRoomCommand(roomId, { type: "timeout" });
+  }, [inGame, deadline, now, roomId]);
+
+  /**
+   * ส่งท่าให้ server รัน engine แล้วเขียนผลเอง (client เขียน game ไม่ได้)
+   * client ไม่เห็นกองจั่ว/มือคนอื่น จึงให้ server ตรวจท่าทั้งหมด
+   */
+  const dispatch = async (move: Move) => {
     if (!uid) return;
-    if (!g) return;
-    if (g.stock.length > 0 || g.discard.length > 0) return; // init แล้ว
-
-    const gameRef = ref(db, `rooms/${roomId}/game`);
-    runTransaction(gameRef, (cur: any) => {
-      if (!cur || cur.phase !== "playing") return cur;
-
-      if (
-        (Array.isArray(cur.stock) && cur.stock.length > 0) ||
-        (Array.isArray(cur.discard) && cur.discard.length > 0)
-      ) {
-        return cur;
-      }
+    const { error } = await sendRoomCommand(roomId, move);
+    if (error) showToast(error);
+  };
 
-      const deck = shuffle(makeDeck());
+  const iAmHost = !!uid && room?.hostUid === uid;
+  const mySeatBotted = !!uid && botUids.has(uid);
+
+  /** คำสั่งเกี่ยวกับคนหลุด: แทนด้วยบอท / จบตา / เอาที่นั่งคืน */
+  const sendSeatCommand = async (
+    command:
+      | { type: "replaceWithBot"; targetUid: string }
+      | { type: "endHand" }
+      | { type: "reclaimSeat" }
+  ) => {
+    const { error } = await sendRoomCommand(roomId, command);
+    if (error) showToast(error);
+  };
 
-      // แจก 7 ใบ/คน
-      const hands: Record<string, CardT[]> = {};
-      for (const puid of joinedUids) hands[puid] = [];
-      for (let i = 0; i < 7; i++) {
-        for (const puid of joinedUids) hands[puid].push(deck.pop()!);
-      }
+  /** จบรอบแล้ว: บันทึกแต้มเข้าแมตช์ แล้วเริ่มรอบใหม่ (server แจกไพ่ให้) */
+  const nextRound = async () => {
+    const { error } = await sendRoomCommand(roomId, { type: "nextRound" });
+    if (error) showToast(error);
+  };
 
-      // stock ที่เหลือ
-      const stock = deck;
-
-      // ตั้ง “หัว” = ใบแรกที่เปิดเป็นฐานกองกลาง (หยิบ 1 ใบจาก stock มาวาง discard)
-      const head = stock.pop() ?? null;
-      const headCardId = head?.id ?? null;
-
-      const players: Record<string, GamePlayer> = {};
-      const cardOrigins: Record<string, Origin> = {};
-
-      for (const puid of joinedUids) {
-        players[puid] = {
-          name: cur.players?.[puid]?.name ?? "Player",
-          hand: hands[puid],
-          hasMelded: false,
-          score: 0,
-          scoredCards: [],
-          lastTurnTookDiscardFromUid: null,
-        };
-        for (const c of hands[puid])
-          cardOrigins[c.id] = { kind: "stock", fromUid: null };
-      }
+  /** แมตช์จบ: กลับล็อบบี้ ทุกคนต้องกด Ready ใหม่ */
+  const backToLobby = async () => {
+    const { error } = await sendRoomCommand(roomId, { type: "backToLobby" });
+    if (error) showToast(error);
+  };
 
-      cur.stock = stock;
-      cur.discard = head ? [{ ...head, fromUid: null, at: Date.now() }] : [];
-      cur.headCardId = headCardId;
-
-      cur.players = players;
-      cur.cardOrigins = cardOrigins;
-      cur.tableMelds = [];
-      cur.turnUid = cur.turnUid ?? joinedUids[0] ?? null;
-      cur.step = "draw";
-      cur.winnerUid = null;
-      cur.endedAt = null;
-      return cur;
+  // ใบในกองกลางที่จะเก็บ: ใบที่คลิกเลือกไว้ ไม่งั้นใบบนสุด
+  const pickIndex = useMemo(() => {
+    if (!g || g.discard.length === 0) return -1;
+    const idx = pickCardId
+      ? g.discard.findIndex((c) => c.id === pickCardId)
+      : -1;
+    return idx >= 0 ? idx : g.discard.length - 1;
+  }, [g, pickCardId]);
+  const pickCard = g && pickIndex >= 0 ? g.discard[pickIndex] : null;
+  const stockCount = g?.stockCount ?? 0;
+
+  // มือที่แสดง: เรียงตามดอก/แต้ม หรือตามลำดับที่ลากจัดเอง (จำไว้ต่อผู้เล่น)
+  const aceHigh = g?.rules.aceHigh ?? false;
+  const displayHand = useMemo(
+    () =>
+      handOrder.sort === "manual"
+        ? orderHand(myHand, handOrder.order)
+        : sortHand(myHand, handOrder.sort, aceHigh),
+    [myHand, handOrder, aceHigh]
+  );
+  const setHandSort = (sort: HandSort) =>
+    void saveHandOrder({
+      sort,
+      order: sort === "manual" ? displayHand.map((c) => c.id) : [],
     });
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [uid, g, roomId, joinedUids.join("|")]);
-
-  const headCard = useMemo(() => {
-    if (!g?.headCardId) return null;
-    // head อยู่ใน discard[0] เสมอ (หลัง init)
-    return g.discard.find((x) => x.id === g.headCardId) ?? null;
-  }, [g?.headCardId, g?.discard]);
 
-  const topDiscard =
-    g && g.discard.length ? g.discard[g.discard.length - 1] : null;
-  const canTakeTopDiscard = !!g && g.discard.length >= 2; // ✅ ห้ามเก็บถ้ามีแค่หัวใบเดียว
-  const stockCount = g?.stock.length ?? 0;
+  // ท่าที่ทำได้ตอนนี้: ขั้นจั่ว = เก็บจากกองกลางมาเกิด, ขั้นทิ้ง = เกิด/ฝากจากมือ
+  const hasMelded = !!uid && !!g?.players[uid]?.hasMelded;
+  const suggestions = useMemo(() => {
+    if (!g || !isMyTurn || ended) return [];
+    return suggestMelds(myHand, g, hasMelded, fromDiscard).filter((x) =>
+      g.step === "draw" ? x.type === "pickUp" : x.type !== "pickUp"
+    );
+  }, [g, isMyTurn, ended, myHand, hasMelded, fromDiscard]);
+  const suggestedIds = useMemo(
+    () =>
+      new Set(
+        suggestions.flatMap((x) =>
+          x.type === "layOff" ? [x.cardId] : x.cardIds
+        )
+      ),
+    [suggestions]
+  );
 
   const toggleSelect = (cardId: string) => {
     setSelected((prev) => {
@@ -403,204 +557,103 @@ export default function PlayPage() {
   };
   const clearSelection = () => setSelected({});
 
-  /** --- actions --- */
-  const drawStock = async () => {
-    if (!uid || !g) return;
-    if (!isMyTurn) return alert("ยังไม่ถึงตาคุณ");
-    if (ended) return;
-    if (g.step !== "draw") return alert("ต้องทิ้งก่อน");
-    if (stockCount <= 0) return alert("กองจั่วหมด");
-
-    const gameRef = ref(db, `rooms/${roomId}/game`);
-    await runTransaction(gameRef, (cur: any) => {
-      if (!cur || cur.phase !== "playing") return cur;
-      if (cur.winnerUid || cur.endedAt) return cur;
-      if (cur.turnUid !== uid || cur.step !== "draw") return cur;
-      if (!Array.isArray(cur.stock) || cur.stock.length === 0) return cur;
-
-      const card = cur.stock.pop();
-      cur.players[uid].hand.push(card);
-      cur.cardOrigins = cur.cardOrigins ?? {};
-      cur.cardOrigins[card.id] = { kind: "stock", fromUid: null };
-
-      cur.players[uid].lastTurnTookDiscardFromUid = null;
-      cur.step = "discard";
-      return cur;
-    });
+  /** ย้อนท่าล่าสุด (เกิด/ฝาก/เก็บ หรือทิ้งที่คนถัดไปยังไม่เล่น) */
+  const undo = async () => {
+    const { error } = await sendRoomCommand(roomId, { type: "undo" });
+    if (error) showToast(error);
+    clearSelection();
   };
 
-  const takeTopDiscard = async () => {
-    if (!uid || !g) return;
-    if (!isMyTurn) return alert("ยังไม่ถึงตาคุณ");
-    if (ended) return;
-    if (g.step !== "draw") return alert("ต้องทิ้งก่อน");
-    if (!canTakeTopDiscard)
-      return alert("กองกลางมีแค่หัว ห้ามเก็บ (ต้องกินหัวถ้าจะเอาหัว)");
-
-    const gameRef_toggle = ref(db, `rooms/${roomId}/game`);
-    await runTransaction(gameRef_toggle, (cur: any) => {
-      if (!cur || cur.phase !== "playing") return cur;
-      if (cur.winnerUid || cur.endedAt) return cur;
-      if (cur.turnUid !== uid || cur.step !== "draw") return cur;
-      if (!Array.isArray(cur.discard) || cur.discard.length < 2) return cur;
-
-      const card = cur.discard.pop(); // ใบบนสุดเท่านั้น
-      cur.players[uid].hand.push(card);
-
-      cur.players[uid].lastTurnTookDiscardFromUid = card.fromUid ?? null;
-
-      cur.cardOrigins = cur.cardOrigins ?? {};
-      cur.cardOrigins[card.id] = {
-        kind: "discard",
-        fromUid: card.fromUid ?? null,
-      };
-
-      cur.step = "discard";
-      return cur;
-    });
+  /** --- actions --- */
+  const drawStock = async () => {
+    await dispatch({ type: "drawStock" });
   };
 
-  /** ✅ กินหัว: เก็บทั้งกองกลางเข้ามือ แล้วตั้งหัวใบใหม่ทันที */
-  const eatHead = async () => {
-    if (!uid || !g) return;
-    if (!isMyTurn) return alert("ยังไม่ถึงตาคุณ");
-    if (ended) return;
-    if (g.step !== "draw") return alert("ต้องทิ้งก่อน");
-    if (g.discard.length === 0) return alert("กองกลางว่าง");
-
-    const gameRef = ref(db, `rooms/${roomId}/game`);
-    await runTransaction(gameRef, (cur: any) => {
-      if (!cur || cur.phase !== "playing") return cur;
-      if (cur.winnerUid || cur.endedAt) return cur;
-      if (cur.turnUid !== uid || cur.step !== "draw") return cur;
-
-      cur.discard = Array.isArray(cur.discard) ? cur.discard : [];
-      const pile: DiscardCard[] = cur.discard;
-
-      // ย้ายทั้งกองเข้ามือ
-      for (const c of pile) {
-        cur.players[uid].hand.push({ id: c.id, r: c.r, s: c.s });
-        cur.cardOrigins = cur.cardOrigins ?? {};
-        // ถือว่า "ได้มาจากกองกลาง" (รวมถึงหัว) เพื่อให้ rule “มีไพ่กองกลาง” ใช้ง่าย
-        cur.cardOrigins[c.id] = { kind: "discard", fromUid: c.fromUid ?? null };
-      }
-
-      // ตั้งหัวใบใหม่
-      cur.stock = Array.isArray(cur.stock) ? cur.stock : [];
-      const newHead = cur.stock.pop() ?? null;
-      cur.discard = newHead
-        ? [{ ...newHead, fromUid: null, at: Date.now() }]
-        : [];
-      cur.headCardId = newHead?.id ?? null;
-
-      cur.players[uid].lastTurnTookDiscardFromUid = null;
-      cur.step = "discard";
-      return cur;
+  /**
+   * เก็บไพ่ใบที่ index จากกองกลาง + เกิดทันทีกับไพ่ที่เลือกไว้ในมือ
+   * ไพ่ที่ทับอยู่ข้างบนเข้ามือทั้งหมด (index 0 = กินหัว)
+   */
+  const pickUp = async (index: number, meldId?: string) => {
+    await dispatch({
+      type: "pickUp",
+      index,
+      cardIds: meldId ? [] : Object.keys(selected),
+      ...(meldId ? { meldId } : {}),
     });
+    clearSelection();
+    setPickCardId(null);
   };
 
   const discardCardById = async (cardId: string) => {
-    if (!uid || !g) return;
-    if (!isMyTurn) return alert("ยังไม่ถึงตาคุณ");
-    if (ended) return;
-    if (g.step !== "discard") return alert("ต้องจั่ว/เก็บก่อน");
-
-    const gameRef = ref(db, `rooms/${roomId}/game`);
-    await runTransaction(gameRef, (cur: any) => {
-      if (!cur || cur.phase !== "playing") return cur;
-      if (cur.winnerUid || cur.endedAt) return cur;
-      if (cur.turnUid !== uid || cur.step !== "discard") return cur;
-
-      const hand: CardT[] = cur.players?.[uid]?.hand ?? [];
-      const idx = hand.findIndex((c) => c.id === cardId);
-      if (idx < 0) return cur;
-
-      const [card] = hand.splice(idx, 1);
-
-      cur.discard = Array.isArray(cur.discard) ? cur.discard : [];
-      cur.discard.push({ ...card, fromUid: uid, at: Date.now() });
-
-      cur.cardOrigins = cur.cardOrigins ?? {};
-      cur.cardOrigins[card.id] = { kind: "discard", fromUid: uid };
-
-      // next turn
-      const uids: string[] = Object.keys(cur.players ?? {});
-      const curIndex = uids.indexOf(uid);
-      const nextUid = uids[(curIndex + 1) % uids.length] ?? null;
-      cur.turnUid = nextUid;
-      cur.step = "draw";
-      return cur;
-    });
-
+    await dispatch({ type: "discard", cardId });
     clearSelection();
   };
 
   const layMeld = async () => {
-    if (!uid || !g) return;
-    if (!isMyTurn) return alert("ยังไม่ถึงตาคุณ");
-    if (ended) return;
-    if (g.step !== "discard") return alert("ต้องจั่ว/เก็บก่อน");
-
-    const ids = Object.keys(selected);
-    if (ids.length < 3) return alert("เลือก 3 ใบขึ้นไปเพื่อเกิด");
-
-    const gameRef = ref(db, `rooms/${roomId}/game`);
-    await runTransaction(gameRef, (cur: any) => {
-      if (!cur || cur.phase !== "playing") return cur;
-      if (cur.winnerUid || cur.endedAt) return cur;
-      if (cur.turnUid !== uid || cur.step !== "discard") return cur;
-
-      const hand: CardT[] = cur.players?.[uid]?.hand ?? [];
-      const picked: CardT[] = [];
-      const pickedIdx: number[] = [];
-
-      for (const id of ids) {
-        const idx = hand.findIndex((c) => c.id === id);
-        if (idx < 0) return cur;
-        picked.push(hand[idx]);
-        pickedIdx.push(idx);
-      }
-
-      const cls = classifyMeld(picked);
-      if (!cls.ok) return cur;
-
-      // เกิด: ต้องมีไพ่ “ได้มาจากกองกลาง” อย่างน้อย 1 ใบ
-      const origins: Record<string, Origin> = cur.cardOrigins ?? {};
-      const hasDiscardCard = picked.some(
-        (c) => origins[c.id]?.kind === "discard"
-      );
-      if (!hasDiscardCard) return cur;
-
-      pickedIdx.sort((a, b) => b - a).forEach((i) => hand.splice(i, 1));
-
-      const meld: Meld = {
-        id: crypto.randomUUID(),
-        ownerUid: uid,
-        kind: cls.kind!,
-        cards: picked,
-        createdAt: Date.now(),
-      };
-      cur.tableMelds = Array.isArray(cur.tableMelds) ? cur.tableMelds : [];
-      cur.tableMelds.push(meld);
-
-      cur.players[uid].hasMelded = true;
-      cur.players[uid].scoredCards = Array.isArray(cur.players[uid].scoredCards)
-        ? cur.players[uid].scoredCards
-        : [];
-      cur.players[uid].scoredCards.push(...picked);
-
-      return cur;
-    });
+    await dispatch({ type: "layMeld", cardIds: Object.keys(selected) });
+    clearSelection();
+  };
 
+  /** ฝาก: วางไพ่ 1 ใบต่อกองบนโต๊ะ */
+  const layOff = async (cardId: string, meldId: string) => {
+    await dispatch({ type: "layOff", cardId, meldId });
     clearSelection();
   };
 
+  /** ใช้ท่าที่แนะนำ: เลือกไพ่ให้ (เก็บ = เลือกใบในกองกลางด้วย) ฝาก = ส่งเลย */
+  const applySuggestion = async (x: MeldSuggestion) => {
+    if (x.type === "layOff") return layOff(x.cardId, x.meldId);
+    setSelected(Object.fromEntries(x.cardIds.map((id) => [id, true])));
+    if (x.type === "pickUp" && g) setPickCardId(g.discard[x.index]?.id ?? null);
+  };
+  const handLabel = (id: string) => {
+    const c = myHand.find((x) => x.id === id);
+    return c ? cardLabel(c) : "?";
+  };
+
   /** ---------- Drag & Drop wiring ---------- */
+  // คีย์บอร์ด: Enter หยิบ, ลูกศรย้ายไปกองกลาง/Meld Builder/กองบนโต๊ะ/ในมือ, Enter/Space วาง
+  // (Space ตอนไม่ได้ลาก = เลือกไพ่ ดู SortableCard)
   const sensors = useSensors(
-    useSensor(PointerSensor, { activationConstraint: { distance: 6 } })
+    useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+      keyboardCodes: {
+        start: ["Enter"],
+        cancel: ["Escape"],
+        end: ["Enter", "Space"],
+      },
+    })
   );
+  const [dragging, setDragging] = useState(false);
+
+  /** ชื่อไพ่/ที่วางสำหรับข้อความของ dnd-kit ที่ screen reader อ่าน */
+  const dropName = (id: string | number) => {
+    const key = String(id);
+    if (key === "zone:discard") return "กองกลาง (ทิ้ง)";
+    if (key === "zone:meld") return "Meld Builder";
+    if (key.startsWith("meld:")) {
+      const m = g?.tableMelds.find((x) => x.id === key.replace("meld:", ""));
+      return `กองบนโต๊ะ ${m ? m.cards.map(cardName).join(", ") : ""} (ฝาก)`;
+    }
+    const c = myHand.find((x) => `hand:${x.id}` === key);
+    return c ? cardName(c) : key;
+  };
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => `หยิบ ${dropName(active.id)}`,
+    onDragOver: ({ active, over }) =>
+      over
+        ? `${dropName(active.id)} อยู่ที่ ${dropName(over.id)}`
+        : `${dropName(active.id)} ไม่อยู่บนที่วาง`,
+    onDragEnd: ({ active, over }) =>
+      over
+        ? `วาง ${dropName(active.id)} ที่ ${dropName(over.id)}`
+        : `วาง ${dropName(active.id)} คืนที่เดิม`,
+    onDragCancel: ({ active }) => `ยกเลิกการลาก ${dropName(active.id)}`,
+  };
 
   const onDragEnd = async (e: DragEndEvent) => {
+    setDragging(false);
     const activeId = String(e.active.id);
     const overId = e.over ? String(e.over.id) : "";
 
@@ -613,13 +666,67 @@ export default function PlayPage() {
       return;
     }
 
+    if (overId.startsWith("meld:")) {
+      // ฝากด้วย drag
+      await layOff(cardId, overId.replace("meld:", ""));
+      return;
+    }
+
     if (overId === "zone:meld") {
       // เพิ่มเข้า selected (เหมือนลากไปโซนจัดชุด)
       toggleSelect(cardId);
       return;
     }
+
+    if (overId.startsWith("hand:") && overId !== activeId) {
+      // จัดลำดับในมือเอง (เปลี่ยนเป็นแบบ manual)
+      const ids = displayHand.map((c) => c.id);
+      const from = ids.indexOf(cardId);
+      const to = ids.indexOf(overId.replace("hand:", ""));
+      if (from < 0 || to < 0) return;
+      await saveHandOrder({ sort: "manual", order: arrayMove(ids, from, to) });
+    }
   };
 
+  /**
+   * ปุ่มลัด: D จั่ว, P เก็บใบที่เลือก, H กินหัว, M เกิด, X ทิ้งไพ่ที่เลือกไว้ 1 ใบ,
+   * U ย้อน, Esc ล้างที่เลือก (ไม่ทำงานตอนพิมพ์ในช่อง input หรือระหว่างลาก)
+   */
+  useEffect(() => {
+    if (spectating || !g) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (dragging || e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      if ((e.target as HTMLElement | null)?.closest("input, select, textarea"))
+        return;
+      const picked = Object.keys(selected);
+      const run: Record<string, () => unknown> = {
+        d: drawStock,
+        p: () => pickIndex >= 0 && pickUp(pickIndex),
+        h: () => g.discard.length > 0 && pickUp(0),
+        m: layMeld,
+        x: () =>
+          picked.length === 1
+            ? discardCardById(picked[0])
+            : showToast("เลือกไพ่ในมือ 1 ใบ (Space) ก่อนกด X เพื่อทิ้ง"),
+        u: () => canUndo && undo(),
+        escape: clearSelection,
+      };
+      const action = run[e.key.toLowerCase()];
+      if (!action) return;
+      e.preventDefault();
+      void action();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // ท่าล่าสุดของคนอื่น (และหมดเวลา) ต่อท้ายใน live region — screen reader อ่านเฉพาะรายการใหม่
+  const recentMoves = (room?.moves ?? [])
+    .map((m) => ({ ...m, cardIds: m.cardIds ?? [] }))
+    .filter((m) => m.uid !== uid || m.type === "timeout")
+    .slice(-4);
+  const playerName = (puid: string) => g?.players[puid]?.name ?? "?";
+
   if (!room || !g) {
     return (
       <main className="p-6">
@@ -628,15 +735,25 @@ export default function PlayPage() {
     );
   }
 
-  // แสดงกองกลางแบบ “หัว + ไพ่ทับหัวล่าสุด 1-2 ใบ”
-  const head = g.discard.length ? g.discard[0] : null;
-  const tail = g.discard.length > 1 ? g.discard.slice(-2) : [];
-  const showDiscard = [head, ...tail.filter((x) => x.id !== head?.id)].filter(
-    Boolean
-  ) as DiscardCard[];
+  // ผู้เล่นตามลำดับที่นั่ง (= ลำดับการเล่น)
+  const seats = g.seatUids.map((puid) => [puid, g.players[puid]] as const);
 
   return (
-    <DndContext sensors={sensors} onDragEnd={onDragEnd}>
+    <DndContext
+      sensors={sensors}
+      onDragStart={() => setDragging(true)}
+      onDragCancel={() => setDragging(false)}
+      onDragEnd={onDragEnd}
+      accessibility={{
+        announcements,
+        screenReaderInstructions: {
+          draggable:
+            "ไพ่ในมือ: กด Space เพื่อเลือก/ยกเลิก ใช้ลูกศรเลื่อนไปใบอื่น " +
+            "กด Enter เพื่อหยิบ แล้วใช้ลูกศรย้ายไปกองกลาง Meld Builder " +
+            "กองบนโต๊ะ หรือสลับตำแหน่งในมือ กด Enter หรือ Space เพื่อวาง Esc เพื่อยกเลิก",
+        },
+      }}
+    >
       {/* TABLE BACKGROUND */}
       <div className="min-h-screen w-full bg-gradient-to-b from-emerald-950 via-emerald-900 to-emerald-950 text-white">
         <div className="max-w-6xl mx-auto p-6">
@@ -654,19 +771,184 @@ export default function PlayPage() {
                     : g.players[g.turnUid ?? ""]?.name ?? "-"}
                 </b>{" "}
                 • Step: <b>{g.step}</b> • Stock: <b>{stockCount}</b>
+                {secondsLeft != null && (
+                  <>
+                    {" "}
+                    • ⏱{" "}
+                    <b className={secondsLeft <= 10 ? "text-red-300" : ""}>
+                      {secondsLeft}s
+                    </b>
+                  </>
+                )}
+                {match && (
+                  <>
+                    {" "}
+                    • Round: <b>{match.round}</b> • Target:{" "}
+                    <b>{match.targetScore}</b>
+                  </>
+                )}
+                {spectatorCount > 0 && (
+                  <>
+                    {" "}
+                    • 👀 ผู้ชม: <b>{spectatorCount}</b>
+                  </>
+                )}
+              </div>
+              <div className="text-white/60 text-sm mt-1">
+                กติกา: สเปโต +{g.rules.spetoBonus} • น็อค +{g.rules.knockBonus}{" "}
+                • ดัมมี่น็อค +{g.rules.dummyKnockBonus}
+                {g.rules.aceHigh && " • เรียง Q-K-A ได้"}
               </div>
             </div>
 
             <div className="flex gap-2 items-center">
+              {canUndo && (
+                <Button
+                  variant="secondary"
+                  onClick={undo}
+                  aria-keyshortcuts="U"
+                >
+                  ↶ ย้อน
+                  {undoSecondsLeft != null && ` (${undoSecondsLeft}s)`}
+                </Button>
+              )}
               <Badge
                 variant="secondary"
                 className="bg-white/15 text-white border-white/20"
               >
-                {isMyTurn ? "Your turn" : "Waiting"}
+                {spectating ? "Spectating" : isMyTurn ? "Your turn" : "Waiting"}
               </Badge>
             </div>
           </div>
 
+          {/* ท่าล่าสุด: live region — screen reader อ่านเฉพาะรายการที่เพิ่มเข้ามา */}
+          <ul
+            aria-live="polite"
+            aria-label="ท่าล่าสุด"
+            className="mt-2 text-white/70 text-sm"
+          >
+            {recentMoves.map((m) => (
+              <li key={`${room.handNo}-${m.seq}`}>
+                {describeMove(m, playerName)}
+              </li>
+            ))}
+            {isMyTurn && !ended && (
+              <li
+                key={`turn-${room.handNo}-${recentMoves.at(-1)?.seq ?? -1}`}
+                className="font-semibold text-white"
+              >
+                ถึงตาคุณแล้ว
+              </li>
+            )}
+          </ul>
+
+          {spectating && (
+            <div className="mt-4 rounded-2xl border border-white/20 bg-white/10 px-4 py-3">
+              <div className="font-semibold">👀 คุณกำลังดูในฐานะผู้ชม</div>
+              <div className="text-white/70 text-sm">
+                เห็นกองบนโต๊ะ กองกลาง จำนวนไพ่ในมือ และแต้มของทุกคน
+                แต่ไม่เห็นไพ่ในมือใคร
+              </div>
+            </div>
+          )}
+
+          {mySeatBotted && !ended && (
+            <div className="mt-4 rounded-2xl border border-sky-300/40 bg-sky-300/15 px-4 py-3">
+              <div className="font-semibold">
+                คุณหลุดไปนาน บอทกำลังเล่นแทนที่นั่งนี้
+              </div>
+              <Button
+                className="mt-3"
+                onClick={() => sendSeatCommand({ type: "reclaimSeat" })}
+              >
+                กลับมาเล่นเอง
+              </Button>
+            </div>
+          )}
+
+          {ended && (
+            <div className="mt-4 rounded-2xl border border-amber-300/40 bg-amber-300/15 px-4 py-3">
+              <div className="font-semibold">
+                {g.endReason === "stockOut"
+                  ? "จบรอบ: กองจั่วหมด"
+                  : g.endReason === "abandoned"
+                  ? "จบรอบ: host สั่งจบตานี้"
+                  : `จบรอบ: ${
+                      g.winnerUid === uid
+                        ? "คุณ"
+                        : g.players[g.winnerUid ?? ""]?.name ?? "?"
+                    } ${g.endReason === "dummyKnock" ? "ดัมมี่น็อค" : "น็อค"}`}
+              </div>
+              <div className="text-white/70 text-sm">
+                หักแต้มไพ่ค้างมือแล้ว — ดูสรุปแต้มด้านขวา
+              </div>
+              <div className="mt-3 flex gap-2 flex-wrap">
+                {!match?.finishedAt && !spectating && (
+                  <Button onClick={nextRound}>
+                    บันทึกแต้ม &amp; เริ่มรอบถัดไป
+                  </Button>
+                )}
+                {room.handNo != null && (
+                  <Button
+                    variant="secondary"
+                    onClick={() =>
+                      router.push(`/r/${roomId}/replay/${room.handNo}`)
+                    }
+                  >
+                    ดู replay ตานี้
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* MATCH RESULTS */}
+          {match?.finishedAt && (
+            <Card className="mt-4 bg-white/10 border-white/15 text-white">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">
+                  จบแมตช์ — ผู้ชนะ:{" "}
+                  {g.players[match.winnerUid ?? ""]?.name ?? "?"}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <table className="w-full text-sm">
+                  <thead className="text-white/70">
+                    <tr>
+                      <th className="text-left font-normal">#</th>
+                      <th className="text-left font-normal">ผู้เล่น</th>
+                      {match.history.map((_, i) => (
+                        <th key={i} className="text-right font-normal">
+                          R{i + 1}
+                        </th>
+                      ))}
+                      <th className="text-right font-normal">รวม</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {standings(match).map((row, i) => (
+                      <tr key={row.uid}>
+                        <td>{i + 1}</td>
+                        <td className="font-semibold">
+                          {g.players[row.uid]?.name ?? "?"}
+                        </td>
+                        {match.history.map((h, r) => (
+                          <td key={r} className="text-right">
+                            {h[row.uid] ?? 0}
+                          </td>
+                        ))}
+                        <td className="text-right font-bold">{row.total}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {!spectating && (
+                  <Button onClick={backToLobby}>กลับล็อบบี้</Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* TABLE LAYOUT */}
           <div className="mt-6 grid grid-cols-1 lg:grid-cols-[1fr_360px] gap-4">
             {/* CENTER TABLE */}
@@ -686,20 +968,23 @@ export default function PlayPage() {
                   </CardHeader>
                   <CardContent className="space-y-3">
                     <div className="text-white/80">เหลือ {stockCount} ใบ</div>
-                    <Button
-                      onClick={drawStock}
-                      disabled={
-                        !uid ||
-                        loading ||
-                        !isMyTurn ||
-                        ended ||
-                        g.step !== "draw" ||
-                        stockCount <= 0
-                      }
-                      className="w-full"
-                    >
-                      จั่ว
-                    </Button>
+                    {!spectating && (
+                      <Button
+                        onClick={drawStock}
+                        aria-keyshortcuts="D"
+                        disabled={
+                          !uid ||
+                          loading ||
+                          !isMyTurn ||
+                          ended ||
+                          g.step !== "draw" ||
+                          stockCount <= 0
+                        }
+                        className="w-full"
+                      >
+                        จั่ว
+                      </Button>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -709,135 +994,151 @@ export default function PlayPage() {
                   title="กองกลาง (ทิ้ง / วางด้วย drag)"
                   hint="ลากไพ่จากมือมาทิ้งที่นี่"
                 >
-                  <div className="flex items-center gap-2">
-                    {/* แสดงแบบ fan: หัว + 1-2 ใบล่าสุด */}
-                    <div className="relative h-24">
-                      {showDiscard.map((c, i) => (
-                        <div
-                          key={c.id}
-                          className="absolute"
-                          style={{ left: i * 26, top: i === 0 ? 0 : 6 }}
-                        >
-                          <PlayingCard
-                            c={c}
-                            head={c.id === g.headCardId}
-                            small
-                          />
-                        </div>
-                      ))}
-                    </div>
-
-                    <div className="ml-2 text-white/80 text-sm">
-                      <div>
-                        บนสุด: <b>{topDiscard ? cardLabel(topDiscard) : "—"}</b>
-                      </div>
-                      <div>
-                        หัว:{" "}
-                        <b>{g.headCardId ? cardLabel(g.discard[0]) : "—"}</b>
+                  {/* แสดงทั้งกองแบบ fan: หัวอยู่ซ้ายสุด คลิกเลือกใบที่จะเก็บ */}
+                  <div className="flex flex-wrap gap-y-2 pl-7">
+                    {g.discard.map((c, i) => (
+                      <div key={c.id} className="-ml-7">
+                        <PlayingCard
+                          c={c}
+                          head={c.id === g.headCardId}
+                          selected={i === pickIndex}
+                          onClick={() =>
+                            setPickCardId(c.id === pickCardId ? null : c.id)
+                          }
+                          small
+                        />
                       </div>
-                    </div>
-                  </div>
-
-                  <div className="mt-3 grid grid-cols-2 gap-2">
-                    <Button
-                      variant="secondary"
-                      className="bg-white/15 text-white border border-white/20"
-                      onClick={takeTopDiscard}
-                      disabled={
-                        !uid ||
-                        loading ||
-                        !isMyTurn ||
-                        ended ||
-                        g.step !== "draw" ||
-                        !canTakeTopDiscard
-                      }
-                    >
-                      เก็บใบบนสุด
-                    </Button>
-
-                    <Button
-                      variant="secondary"
-                      className="bg-white/15 text-white border border-white/20"
-                      onClick={eatHead}
-                      disabled={
-                        !uid ||
-                        loading ||
-                        !isMyTurn ||
-                        ended ||
-                        g.step !== "draw" ||
-                        g.discard.length === 0
-                      }
-                    >
-                      กินหัว
-                    </Button>
+                    ))}
                   </div>
-                </DroppableZone>
 
-                {/* MELD BUILDER ZONE */}
-                <DroppableZone
-                  id="zone:meld"
-                  title="Meld Builder (ลากไพ่เข้ามา)"
-                  hint="ลากไพ่มาที่นี่เพื่อเลือกสำหรับ “เกิด”"
-                >
-                  <div className="flex flex-wrap gap-2">
-                    {Object.keys(selected).length === 0 ? (
-                      <div className="text-white/70 text-sm">
-                        ยังไม่เลือกไพ่
-                      </div>
-                    ) : (
-                      Object.keys(selected).map((id) => {
-                        const c = me?.hand.find((x) => x.id === id);
-                        if (!c) return null;
-                        return (
-                          <div key={id}>
-                            <PlayingCard
-                              c={c}
-                              head={c.id === g.headCardId}
-                              small
-                            />
-                          </div>
-                        );
-                      })
+                  <div className="mt-2 text-white/80 text-sm">
+                    จะเก็บ: <b>{pickCard ? cardLabel(pickCard) : "—"}</b>
+                    {pickIndex >= 0 && (
+                      <span className="text-white/70">
+                        {" "}
+                        (+ ไพ่ทับข้างบน {g.discard.length - 1 - pickIndex}{" "}
+                        ใบเข้ามือ)
+                      </span>
                     )}
                   </div>
 
-                  <div className="mt-3 flex gap-2">
-                    <Button
-                      onClick={layMeld}
-                      disabled={
-                        !uid ||
-                        loading ||
-                        !isMyTurn ||
-                        ended ||
-                        g.step !== "discard"
-                      }
-                      className="flex-1"
-                    >
-                      เกิด (ใช้ไพ่ที่เลือก)
-                    </Button>
-                    <Button
-                      variant="secondary"
-                      className="bg-white/15 text-white border border-white/20"
-                      onClick={clearSelection}
-                    >
-                      Clear
-                    </Button>
-                  </div>
+                  {!spectating && (
+                    <>
+                      <div className="mt-3 grid grid-cols-2 gap-2">
+                        <Button
+                          variant="secondary"
+                          className="bg-white/15 text-white border border-white/20"
+                          onClick={() => pickUp(pickIndex)}
+                          aria-keyshortcuts="P"
+                          disabled={
+                            !uid ||
+                            loading ||
+                            !isMyTurn ||
+                            ended ||
+                            g.step !== "draw" ||
+                            pickIndex < 0
+                          }
+                        >
+                          เก็บใบที่เลือก + เกิด
+                        </Button>
+
+                        <Button
+                          variant="secondary"
+                          className="bg-white/15 text-white border border-white/20"
+                          onClick={() => pickUp(0)}
+                          aria-keyshortcuts="H"
+                          disabled={
+                            !uid ||
+                            loading ||
+                            !isMyTurn ||
+                            ended ||
+                            g.step !== "draw" ||
+                            g.discard.length === 0
+                          }
+                        >
+                          กินหัว + เกิด
+                        </Button>
+                      </div>
+                      <div className="mt-2 text-white/70 text-xs">
+                        คลิกไพ่ในกองเพื่อเลือกใบที่จะเก็บ
+                        (ไพ่ที่ทับอยู่เข้ามือด้วย) — ต้องเกิดทันที
+                        เลือกไพ่ในมือที่จะเกิดคู่กันก่อนกด
+                      </div>
+                    </>
+                  )}
                 </DroppableZone>
+
+                {/* MELD BUILDER ZONE (ผู้ชมไม่มีไพ่ให้จัด) */}
+                {!spectating && (
+                  <DroppableZone
+                    id="zone:meld"
+                    title="Meld Builder (ลากไพ่เข้ามา)"
+                    hint="ลากไพ่มาที่นี่เพื่อเลือกสำหรับ “เกิด”"
+                  >
+                    <div className="flex flex-wrap gap-2">
+                      {Object.keys(selected).length === 0 ? (
+                        <div className="text-white/70 text-sm">
+                          ยังไม่เลือกไพ่
+                        </div>
+                      ) : (
+                        Object.keys(selected).map((id) => {
+                          const c = myHand.find((x) => x.id === id);
+                          if (!c) return null;
+                          return (
+                            <div key={id}>
+                              <PlayingCard
+                                c={c}
+                                head={c.id === g.headCardId}
+                                small
+                              />
+                            </div>
+                          );
+                        })
+                      )}
+                    </div>
+
+                    <div className="mt-3 flex gap-2">
+                      <Button
+                        onClick={layMeld}
+                        aria-keyshortcuts="M"
+                        disabled={
+                          !uid ||
+                          loading ||
+                          !isMyTurn ||
+                          ended ||
+                          g.step !== "discard"
+                        }
+                        className="flex-1"
+                      >
+                        เกิด (ใช้ไพ่ที่เลือก)
+                      </Button>
+                      <Button
+                        variant="secondary"
+                        className="bg-white/15 text-white border border-white/20"
+                        onClick={clearSelection}
+                        aria-keyshortcuts="Escape"
+                      >
+                        Clear
+                      </Button>
+                    </div>
+                  </DroppableZone>
+                )}
               </div>
 
               {/* TABLE MELDS */}
               <div className="mt-6">
-                <div className="font-semibold mb-2">กองบนโต๊ะ</div>
+                <div className="flex items-center justify-between mb-2">
+                  <div className="font-semibold">กองบนโต๊ะ</div>
+                  <div className="text-white/70 text-xs">
+                    ลากไพ่จากมือมาวางบนกองเพื่อฝาก
+                  </div>
+                </div>
                 {g.tableMelds.length === 0 ? (
                   <div className="text-white/70 text-sm">ยังไม่มีใครเกิด</div>
                 ) : (
                   <div className="grid gap-2">
                     {g.tableMelds.map((m) => (
-                      <div
-                        key={m.id}
-                        className="rounded-2xl border border-white/15 bg-white/5 p-3"
-                      >
+                      <DroppableMeld key={m.id} id={`meld:${m.id}`}>
                         <div className="flex justify-between flex-wrap gap-2">
                           <div className="font-semibold">
                             {m.kind === "run" ? "เรียง" : "ตอง"}{" "}
@@ -849,7 +1150,20 @@ export default function PlayPage() {
                             {m.cards.map(cardLabel).join("  ")}
                           </div>
                         </div>
-                      </div>
+                        {isMyTurn &&
+                          !ended &&
+                          g.step === "draw" &&
+                          pickCard && (
+                            <Button
+                              size="sm"
+                              variant="secondary"
+                              className="mt-2 bg-white/15 text-white border border-white/20"
+                              onClick={() => pickUp(pickIndex, m.id)}
+                            >
+                              เก็บ {cardLabel(pickCard)} มาฝากกองนี้
+                            </Button>
+                          )}
+                      </DroppableMeld>
                     ))}
                   </div>
                 )}
@@ -863,79 +1177,239 @@ export default function PlayPage() {
                   <CardTitle className="text-base">Scoreboard</CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-2">
-                  {Object.entries(g.players).map(([puid, p]) => (
+                  {seats.map(([puid, p]) => (
                     <div
                       key={puid}
                       className="flex items-center justify-between rounded-xl border border-white/15 bg-white/5 px-3 py-2"
                     >
                       <div>
-                        <div className="font-semibold">{p.name}</div>
+                        <div className="font-semibold flex items-center gap-2">
+                          <span
+                            aria-hidden
+                            className="inline-block size-3 rounded-full"
+                            style={{
+                              background: seatColors[puid] ?? "#94a3b8",
+                            }}
+                          />
+                          {p.name}
+                        </div>
                         <div className="text-white/70 text-xs">
-                          hand: {p.hand?.length ?? 0} •{" "}
+                          hand: {p.handCount} •{" "}
                           {p.hasMelded ? "เคยเกิด" : "ยังไม่เกิด"}
                         </div>
+                        <div className="text-white/70 text-xs">
+                          {botUids.has(puid)
+                            ? "🤖 บอทเล่นแทน"
+                            : presence?.[puid]?.online
+                            ? "🟢 online"
+                            : `⚪ offline${
+                                presence?.[puid]
+                                  ? ` ${Math.max(
+                                      0,
+                                      Math.floor(
+                                        (now - presence[puid].at) / 1000
+                                      )
+                                    )}s`
+                                  : ""
+                              }`}
+                        </div>
+                        {iAmHost &&
+                          !ended &&
+                          puid !== uid &&
+                          !botUids.has(puid) &&
+                          isAway(presence?.[puid], now) && (
+                            <div className="mt-1 flex gap-1">
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={() =>
+                                  sendSeatCommand({
+                                    type: "replaceWithBot",
+                                    targetUid: puid,
+                                  })
+                                }
+                              >
+                                ให้บอทเล่นแทน
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={() =>
+                                  sendSeatCommand({ type: "endHand" })
+                                }
+                              >
+                                จบตานี้
+                              </Button>
+                            </div>
+                          )}
+                      </div>
+                      <div className="text-right">
+                        <div className="font-bold">{p.score ?? 0}</div>
+                        {match && (
+                          <div className="text-white/70 text-xs">
+                            รวม {match.totals[puid] ?? 0}
+                          </div>
+                        )}
                       </div>
-                      <div className="font-bold">{p.score ?? 0}</div>
                     </div>
                   ))}
                 </CardContent>
               </Card>
 
-              {/* YOUR HAND */}
-              <Card className="bg-white/10 border-white/15 text-white">
-                <CardHeader className="pb-2">
-                  <CardTitle className="text-base">
-                    Your Hand (ลากไพ่ได้)
-                  </CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <div className="text-white/70 text-sm mb-2">
-                    ลากไปที่ “กองกลาง” เพื่อทิ้ง หรือ “Meld Builder”
-                    เพื่อเลือกไพ่
-                  </div>
+              {ended && (
+                <Card className="bg-white/10 border-white/15 text-white">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">สรุปแต้มรอบนี้</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {seats.map(([puid, p]) => {
+                      const b = p.breakdown;
+                      return (
+                        <div
+                          key={puid}
+                          className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm"
+                        >
+                          <div className="flex justify-between font-semibold">
+                            <span>{p.name}</span>
+                            <span>{b.total}</span>
+                          </div>
+                          <div className="text-white/70 text-xs">
+                            ไพ่ {b.cards} • สเปโต {b.speto} • หัว {b.head} •
+                            น็อค {b.knock} • โง่ {b.penalty} • ค้างมือ {b.hand}
+                          </div>
+                          {p.penalties.map((x, i) => (
+                            <div key={i} className="text-red-300 text-xs">
+                              โง่ −{x.points}: {PENALTY_LABEL[x.reason]} ให้{" "}
+                              {g.players[x.toUid]?.name ?? "?"}
+                            </div>
+                          ))}
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              )}
 
-                  <div className="flex flex-wrap gap-2">
-                    {(me?.hand ?? []).map((c) => (
-                      <DraggableCard
-                        key={c.id}
-                        c={c}
-                        head={c.id === g.headCardId}
-                        selected={!!selected[c.id]}
-                        onClick={() => toggleSelect(c.id)}
-                      />
-                    ))}
-                  </div>
+              {/* YOUR HAND (ผู้ชมไม่มีมือ) */}
+              {!spectating && (
+                <Card className="bg-white/10 border-white/15 text-white">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">
+                      Your Hand (ลากไพ่ได้)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-white/70 text-sm mb-2">
+                      ลากไปที่ “กองกลาง” เพื่อทิ้ง, “Meld Builder” เพื่อเลือกไพ่
+                      หรือกองบนโต๊ะเพื่อฝาก
+                    </div>
+                    <div className="text-white/60 text-xs mb-2">
+                      คีย์บอร์ด: ลูกศรเลื่อนไพ่ • Space เลือก • Enter หยิบไปวาง
+                      • D จั่ว • P เก็บ • H กินหัว • M เกิด • X ทิ้งใบที่เลือก •
+                      U ย้อน • Esc ล้าง
+                    </div>
 
-                  <div className="mt-3 flex gap-2">
-                    <Button
-                      variant="secondary"
-                      className="bg-white/15 text-white border border-white/20"
-                      onClick={() =>
-                        setMeldTarget(
-                          meldTarget === "builder" ? "none" : "builder"
-                        )
-                      }
+                    <div className="mb-2 flex gap-1 flex-wrap">
+                      {(
+                        [
+                          ["manual", "จัดเอง"],
+                          ["suit", "เรียงตามดอก"],
+                          ["rank", "เรียงตามแต้ม"],
+                        ] as const
+                      ).map(([sort, label]) => (
+                        <Button
+                          key={sort}
+                          size="sm"
+                          variant={
+                            handOrder.sort === sort ? "default" : "secondary"
+                          }
+                          onClick={() => setHandSort(sort)}
+                        >
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+
+                    <SortableContext
+                      items={displayHand.map((c) => `hand:${c.id}`)}
+                      strategy={rectSortingStrategy}
                     >
-                      {meldTarget === "builder" ? "Meld: ON" : "Meld: OFF"}
-                    </Button>
+                      <div className="flex flex-wrap gap-2">
+                        {displayHand.map((c) => (
+                          <SortableCard
+                            key={c.id}
+                            c={c}
+                            head={c.id === g.headCardId}
+                            selected={!!selected[c.id]}
+                            suggested={suggestedIds.has(c.id)}
+                            onClick={() => toggleSelect(c.id)}
+                          />
+                        ))}
+                      </div>
+                    </SortableContext>
+
+                    {/* ท่าที่แนะนำ (ไพ่กรอบเหลือง) — กดเพื่อเลือกไพ่ชุดนั้น */}
+                    {suggestions.length > 0 && (
+                      <div className="mt-3 space-y-1">
+                        <div className="text-white/70 text-xs">
+                          ท่าที่ทำได้ตอนนี้
+                        </div>
+                        {suggestions.map((x, i) => (
+                          <button
+                            key={i}
+                            onClick={() => applySuggestion(x)}
+                            className="block w-full text-left rounded px-2 py-1 text-sm bg-white/5 hover:bg-white/15"
+                          >
+                            {x.type === "meld"
+                              ? `เกิด${
+                                  x.kind === "run" ? "เรียง" : "ตอง"
+                                }: ${x.cardIds.map(handLabel).join(" ")}`
+                              : x.type === "pickUp"
+                              ? `เก็บ ${cardLabel(g.discard[x.index])} เกิด${
+                                  x.kind === "run" ? "เรียง" : "ตอง"
+                                }กับ ${x.cardIds.map(handLabel).join(" ")}`
+                              : `ฝาก ${handLabel(x.cardId)} ลงกอง ${
+                                  g.tableMelds
+                                    .find((m) => m.id === x.meldId)
+                                    ?.cards.map(cardLabel)
+                                    .join(" ") ?? "?"
+                                }`}
+                          </button>
+                        ))}
+                      </div>
+                    )}
 
-                    <div className="ml-auto text-white/70 text-sm">
-                      {isMyTurn ? "✅ ตาคุณ" : "⏳ รอคนอื่น"} /{" "}
-                      {g.step === "draw" ? "ต้องจั่ว/เก็บ" : "ต้องทิ้ง"}
+                    <div className="mt-3 flex gap-2">
+                      <Button
+                        variant="secondary"
+                        className="bg-white/15 text-white border border-white/20"
+                        onClick={() =>
+                          setMeldTarget(
+                            meldTarget === "builder" ? "none" : "builder"
+                          )
+                        }
+                      >
+                        {meldTarget === "builder" ? "Meld: ON" : "Meld: OFF"}
+                      </Button>
+
+                      <div className="ml-auto text-white/70 text-sm">
+                        {isMyTurn ? "✅ ตาคุณ" : "⏳ รอคนอื่น"} /{" "}
+                        {g.step === "draw" ? "ต้องจั่ว/เก็บ" : "ต้องทิ้ง"}
+                      </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
+                  </CardContent>
+                </Card>
+              )}
 
               <div className="text-white/60 text-xs">
-                ตอนนี้เป็น “ขั้นแรก” เน้นโต๊ะ + drag/drop + กองกลางมีหัวเป็นฐาน
-                ✅ เดี๋ยวขั้นต่อไปค่อยทำฝากแบบ drag ลงกอง
-                และอนิเมชันเหมือนเกมจริง
+                โต๊ะ + drag/drop + กองกลางมีหัวเป็นฐาน ✅ ฝากแบบ drag ลงกอง ✅
+                เดี๋ยวขั้นต่อไปค่อยทำอนิเมชันเหมือนเกมจริง
               </div>
             </div>
           </div>
         </div>
       </div>
+      <ToastList toasts={toasts} onDismiss={dismissToast} />
     </DndContext>
   );
 }
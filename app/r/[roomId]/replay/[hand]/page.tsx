@@ -0,0 +1,262 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { roomStore } from "@/lib/store";
+import { useAuth } from "@/lib/useAuth";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+import {
+  type CardT,
+  type GameState,
+  type HandLog,
+  type LoggedAction,
+  cardLabel,
+  normalizeHandLog,
+  replayStates,
+} from "@/lib/engine";
+
+/** หาไพ่จาก id ใน state (มือทุกคน กองกลาง กองจั่ว กองบนโต๊ะ) */
+function findCard(s: GameState, id: string): CardT | null {
+  const pools = [
+    ...Object.values(s.players).map((p) => p.hand),
+    s.discard,
+    s.stock,
+    ...s.tableMelds.map((m) => m.cards),
+  ];
+  for (const pool of pools) {
+    const c = pool.find((x) => x.id === id);
+    if (c) return c;
+  }
+  return null;
+}
+
+/** ข้อความของ action หนึ่งรายการ (before = state ก่อนทำ) */
+function describe(action: LoggedAction, before: GameState) {
+  const name = (uid: string) => before.players[uid]?.name ?? uid;
+  const label = (id: string) => {
+    const c = findCard(before, id);
+    return c ? cardLabel(c) : "?";
+  };
+  switch (action.type) {
+    case "deal":
+      return `แจกไพ่ให้ ${action.uids.length} คน`;
+    case "drawStock":
+      return `${name(action.uid)} จั่วจากกองจั่ว`;
+    case "pickUp": {
+      const target = before.discard[action.index];
+      const what = target ? cardLabel(target) : "?";
+      return action.meldId
+        ? `${name(action.uid)} เก็บ ${what} ไปฝาก`
+        : `${name(action.uid)} เก็บ ${what} เกิดกับ ${action.cardIds
+            .map(label)
+            .join(" ")}`;
+    }
+    case "discard":
+      return `${name(action.uid)} ทิ้ง ${label(action.cardId)}`;
+    case "layMeld":
+      return `${name(action.uid)} เกิด ${action.cardIds.map(label).join(" ")}`;
+    case "layOff":
+      return `${name(action.uid)} ฝาก ${label(action.cardId)}`;
+    case "timeout":
+      return `หมดเวลา — ระบบเล่นแทน ${name(before.turnUid ?? "")}`;
+    case "abandon":
+      return `${name(action.uid)} (host) สั่งจบตานี้`;
+    case "undo":
+      return `${name(action.uid)} ย้อนท่าล่าสุด`;
+  }
+}
+
+export default function ReplayPage() {
+  const { roomId, hand } = useParams<{ roomId: string; hand: string }>();
+  const { uid } = useAuth();
+
+  const [log, setLog] = useState<HandLog | null>(null);
+  const [loaded, setLoaded] = useState(false);
+  const [stepNo, setStepNo] = useState(1); // จำนวน action ที่ทำไปแล้ว (1 = หลังแจก)
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsub = roomStore.subscribe(`replays/${roomId}/${hand}`, (value) => {
+      setLog(normalizeHandLog(value));
+      setLoaded(true);
+    });
+    return () => unsub();
+  }, [roomId, hand, uid]);
+
+  // state ทุกขั้นของตา: states[i] = หลังทำ i action แรก
+  const states = useMemo(() => (log ? replayStates(log) : []), [log]);
+  const last = states.length - 1;
+  const at = Math.min(Math.max(stepNo, 0), Math.max(last, 0));
+  const s = states[at];
+  const entry = log && at > 0 ? log.entries[at - 1] : null;
+
+  if (!loaded || !s) {
+    return (
+      <main className="p-6">
+        <div className="text-lg font-semibold">
+          {loaded ? "ไม่พบ replay ของตานี้ (หรือตายังไม่จบ)" : "Loading..."}
+        </div>
+        <Link className="underline" href={`/r/${roomId}`}>
+          กลับห้อง
+        </Link>
+      </main>
+    );
+  }
+
+  // ผู้เล่นตามลำดับที่นั่ง (= ลำดับการเล่น)
+  const seats = s.seatUids.map((puid) => [puid, s.players[puid]] as const);
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-b from-emerald-950 via-emerald-900 to-emerald-950 text-white">
+      <div className="max-w-6xl mx-auto p-6 space-y-4">
+        <div className="flex items-start justify-between gap-4 flex-wrap">
+          <div>
+            <div className="text-2xl font-bold">
+              Replay — Room {roomId} • ตาที่ {hand}
+            </div>
+            <div className="text-white/80 mt-1">
+              ขั้น <b>{at}</b> / {last} • Turn:{" "}
+              <b>{s.players[s.turnUid ?? ""]?.name ?? "-"}</b> • Step:{" "}
+              <b>{s.step}</b> • Stock: <b>{s.stock.length}</b>
+              {s.seed != null && <> • Seed: {s.seed}</>}
+            </div>
+          </div>
+          <Link className="underline text-white/80" href={`/r/${roomId}`}>
+            กลับห้อง
+          </Link>
+        </div>
+
+        {/* CONTROLS */}
+        <div className="flex items-center gap-2 flex-wrap">
+          <Button onClick={() => setStepNo(0)} disabled={at === 0}>
+            ⏮
+          </Button>
+          <Button onClick={() => setStepNo(at - 1)} disabled={at === 0}>
+            ◀ ย้อน
+          </Button>
+          <Button onClick={() => setStepNo(at + 1)} disabled={at >= last}>
+            ถัดไป ▶
+          </Button>
+          <Button onClick={() => setStepNo(last)} disabled={at >= last}>
+            ⏭
+          </Button>
+          <input
+            type="range"
+            aria-label="ขั้นของ replay"
+            min={0}
+            max={last}
+            value={at}
+            onChange={(e) => setStepNo(Number(e.target.value))}
+            className="flex-1 min-w-40"
+          />
+        </div>
+
+        <div className="rounded-2xl border border-white/15 bg-white/5 px-4 py-3">
+          {entry ? (
+            <>
+              <Badge className="mr-2">#{entry.seq}</Badge>
+              {describe(entry.action, states[at - 1])}
+            </>
+          ) : (
+            "ก่อนแจกไพ่"
+          )}
+          {s.endReason && (
+            <span className="ml-2 text-amber-300">(จบตา: {s.endReason})</span>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_360px] gap-4">
+          <div className="space-y-4">
+            {/* PLAYERS (replay เห็นมือทุกคน เพราะตาจบแล้ว) */}
+            <Card className="bg-white/10 border-white/15 text-white">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">ผู้เล่น</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {seats.map(([puid, p]) => (
+                  <div
+                    key={puid}
+                    className={[
+                      "rounded-xl border px-3 py-2",
+                      puid === s.turnUid
+                        ? "border-amber-300/60 bg-amber-300/10"
+                        : "border-white/15 bg-white/5",
+                    ].join(" ")}
+                  >
+                    <div className="flex justify-between font-semibold">
+                      <span>{p.name}</span>
+                      <span>{p.score}</span>
+                    </div>
+                    <div className="text-white/80 text-sm">
+                      {p.hand.map(cardLabel).join("  ") || "—"}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/10 border-white/15 text-white">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">กองกลาง</CardTitle>
+              </CardHeader>
+              <CardContent className="text-white/80">
+                {s.discard
+                  .map((c) =>
+                    c.id === s.headCardId ? `[${cardLabel(c)}]` : cardLabel(c)
+                  )
+                  .join("  ") || "—"}
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/10 border-white/15 text-white">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">กองบนโต๊ะ</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {s.tableMelds.length === 0 ? (
+                  <div className="text-white/70 text-sm">ยังไม่มีใครเกิด</div>
+                ) : (
+                  s.tableMelds.map((m) => (
+                    <div key={m.id} className="text-white/80">
+                      {m.kind === "run" ? "เรียง" : "ตอง"}{" "}
+                      <span className="text-white/60">
+                        by {s.players[m.ownerUid]?.name ?? "?"}
+                      </span>
+                      : {m.cards.map(cardLabel).join("  ")}
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* ACTION LOG */}
+          <Card className="bg-white/10 border-white/15 text-white">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Action log</CardTitle>
+            </CardHeader>
+            <CardContent className="max-h-[70vh] overflow-y-auto space-y-1">
+              {log!.entries.slice(0, last).map((e) => (
+                <button
+                  key={e.seq}
+                  onClick={() => setStepNo(e.seq + 1)}
+                  className={[
+                    "block w-full text-left rounded px-2 py-1 text-sm",
+                    e.seq + 1 === at ? "bg-white/20" : "hover:bg-white/10",
+                  ].join(" ")}
+                >
+                  #{e.seq} {describe(e.action, states[e.seq])}
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+"use client";
+
+import type { ReactNode } from "react";
+import {
+  DUMMY_KNOCK_BONUS_OPTIONS,
+  HAND_SIZE_OPTIONS,
+  type HouseRules,
+  KNOCK_BONUS_OPTIONS,
+  SPETO_BONUS_OPTIONS,
+  TARGET_SCORE_OPTIONS,
+  TURN_SECONDS_OPTIONS,
+  handSizeFor,
+} from "@/lib/engine";
+
+function Row({
+  id,
+  label,
+  hint,
+  children,
+}: {
+  id: string;
+  label: string;
+  hint?: string;
+  children: ReactNode;
+}) {
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+      <label htmlFor={id}>{label}:</label>
+      {children}
+      {hint && <span style={{ color: "#999", fontSize: 13 }}>{hint}</span>}
+    </div>
+  );
+}
+
+function NumberSelect({
+  id,
+  value,
+  options,
+  unit,
+  empty,
+  disabled,
+  onChange,
+}: {
+  id: string;
+  value: number | null;
+  options: number[];
+  unit: string;
+  empty?: string; // มีตัวเลือก "ไม่ระบุ" (ค่า null) ถ้าส่งมา
+  disabled?: boolean;
+  onChange: (value: number | null) => void;
+}) {
+  // ค่าที่ตั้งไว้นอกตัวเลือก (เช่น ห้องเก่า) ยังแสดงได้
+  const values =
+    value == null || options.includes(value) ? options : [...options, value];
+  return (
+    <select
+      id={id}
+      value={value ?? ""}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value ? Number(e.target.value) : null)}
+    >
+      {empty && <option value="">{empty}</option>}
+      {values.map((n) => (
+        <option key={n} value={n}>
+          {n} {unit}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/** ฟอร์มกติกาบ้าน — ใช้ทั้งตอนสร้างห้องและในล็อบบี้ (คนที่ไม่ใช่ host เห็นแบบ disabled) */
+export function HouseRulesForm({
+  rules,
+  onChange,
+  disabled,
+  playerCount = 4,
+}: {
+  rules: HouseRules;
+  onChange: (patch: Partial<HouseRules>) => void;
+  disabled?: boolean;
+  playerCount?: number;
+}) {
+  return (
+    <div style={{ display: "grid", gap: 8 }}>
+      <Row
+        id="hand-size"
+        label="ไพ่ต่อคน"
+        hint="มาตรฐาน: 2 คน = 11, 3 คน = 9, 4 คน = 7"
+      >
+        <NumberSelect
+          id="hand-size"
+          value={rules.handSize}
+          options={HAND_SIZE_OPTIONS}
+          unit="ใบ"
+          empty={`อัตโนมัติ (${handSizeFor(Math.max(playerCount, 2))} ใบ)`}
+          disabled={disabled}
+          onChange={(handSize) => onChange({ handSize })}
+        />
+      </Row>
+
+      <Row id="ace-high" label="A ต่อหลัง K (Q-K-A)">
+        <input
+          id="ace-high"
+          type="checkbox"
+          checked={rules.aceHigh}
+          disabled={disabled}
+          onChange={(e) => onChange({ aceHigh: e.target.checked })}
+        />
+      </Row>
+
+      <Row id="speto-bonus" label="โบนัสสเปโต" hint="ค้างมือโดนหักเท่ากัน">
+        <NumberSelect
+          id="speto-bonus"
+          value={rules.spetoBonus}
+          options={SPETO_BONUS_OPTIONS}
+          unit="แต้ม"
+          disabled={disabled}
+          onChange={(v) => onChange({ spetoBonus: v ?? 0 })}
+        />
+      </Row>
+
+      <Row id="knock-bonus" label="โบนัสน็อค">
+        <NumberSelect
+          id="knock-bonus"
+          value={rules.knockBonus}
+          options={KNOCK_BONUS_OPTIONS}
+          unit="แต้ม"
+          disabled={disabled}
+          onChange={(v) => onChange({ knockBonus: v ?? 0 })}
+        />
+      </Row>
+
+      <Row id="dummy-knock-bonus" label="โบนัสดัมมี่น็อค">
+        <NumberSelect
+          id="dummy-knock-bonus"
+          value={rules.dummyKnockBonus}
+          options={DUMMY_KNOCK_BONUS_OPTIONS}
+          unit="แต้ม"
+          disabled={disabled}
+          onChange={(v) => onChange({ dummyKnockBonus: v ?? 0 })}
+        />
+      </Row>
+
+      <Row id="target-score" label="แต้มเป้าหมาย" hint="ถึงแล้วจบแมตช์">
+        <NumberSelect
+          id="target-score"
+          value={rules.targetScore}
+          options={TARGET_SCORE_OPTIONS}
+          unit="แต้ม"
+          disabled={disabled}
+          onChange={(v) => v && onChange({ targetScore: v })}
+        />
+      </Row>
+
+      <Row
+        id="turn-seconds"
+        label="เวลาต่อตา"
+        hint="หมดเวลา = จั่วแล้วทิ้งใบแต้มสูงที่ยังเกิดไม่ได้ให้อัตโนมัติ"
+      >
+        <NumberSelect
+          id="turn-seconds"
+          value={rules.turnSeconds}
+          options={TURN_SECONDS_OPTIONS}
+          unit="วินาที"
+          empty="ไม่จำกัด"
+          disabled={disabled}
+          onChange={(turnSeconds) => onChange({ turnSeconds })}
+        />
+      </Row>
+    </div>
+  );
+}
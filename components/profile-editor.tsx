@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import { AVATAR_COLORS, MAX_NAME_LENGTH, type Profile } from "@/lib/profile";
+
+/** แก้ชื่อ/สีของตัวเอง — บันทึกตอนออกจากช่องชื่อหรือกดเลือกสี */
+export function ProfileEditor({
+  profile,
+  onSave,
+  disabled,
+}: {
+  profile: Profile;
+  onSave: (patch: Partial<Profile>) => void;
+  disabled?: boolean;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const name = draft ?? profile.name;
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== profile.name)
+      onSave({ name: draft });
+    setDraft(null);
+  };
+
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+      <span
+        aria-hidden
+        style={{
+          width: 20,
+          height: 20,
+          borderRadius: "50%",
+          background: profile.color,
+        }}
+      />
+      <input
+        aria-label="Your name"
+        value={name}
+        maxLength={MAX_NAME_LENGTH}
+        disabled={disabled}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === "Enter" && commit()}
+        placeholder="your name"
+      />
+      {AVATAR_COLORS.map((color) => (
+        <button
+          key={color}
+          aria-label={`Avatar colour ${color}`}
+          aria-pressed={profile.color === color}
+          disabled={disabled}
+          onClick={() => onSave({ color })}
+          style={{
+            width: 18,
+            height: 18,
+            borderRadius: "50%",
+            background: color,
+            border:
+              profile.color === color ? "2px solid #111" : "1px solid #ccc",
+          }}
+        />
+      ))}
+    </div>
+  );
+}
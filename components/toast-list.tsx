@@ -0,0 +1,34 @@
+"use client";
+
+import type { Toast } from "@/lib/useToasts";
+
+/** กล่องข้อความผิดพลาดมุมล่าง — role="alert" ให้ screen reader อ่านทันที */
+export function ToastList({
+  toasts,
+  onDismiss,
+}: {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}) {
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex w-80 max-w-[90vw] flex-col gap-2">
+      {toasts.map((t) => (
+        <div
+          key={t.id}
+          role="alert"
+          className="flex items-start gap-2 rounded-xl border border-red-300/40 bg-red-950/90 px-3 py-2 text-sm text-white shadow-lg"
+        >
+          <span className="flex-1">{t.message}</span>
+          <button
+            type="button"
+            aria-label="ปิดข้อความ"
+            className="text-white/70 hover:text-white"
+            onClick={() => onDismiss(t.id)}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+// lib/engine/bots.ts
+import type { CardT, GameState, Move } from "./types";
+import { applyAction, toAction } from "./reducer";
+import { canLayOff, classifyMeld } from "./melds";
+import {
+  HEAD_BONUS,
+  cardPoints,
+  handValue,
+  isHeadCard,
+  isSpeto,
+} from "./scoring";
+
+/** random = สุ่มจากท่าที่ถูกกติกา, smart = เลือกท่าตาม heuristic */
+export type BotLevel = "random" | "smart";
+
+export const BOT_LEVELS: BotLevel[] = ["random", "smart"];
+
+export function isBotLevel(v: unknown): v is BotLevel {
+  return v === "random" || v === "smart";
+}
+
+function combos<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  const out: T[][] = [];
+  items.forEach((item, i) => {
+    for (const rest of combos(items.slice(i + 1), size - 1))
+      out.push([item, ...rest]);
+  });
+  return out;
+}
+
+/** ท่าที่น่าจะเล่นได้ (กรองด้วย classifyMeld/canLayOff ก่อน ไม่ต้องรัน reducer ทุกแบบ) */
+function candidateMoves(state: GameState, uid: string): Move[] {
+  const me = state.players[uid];
+  if (!me || state.phase !== "playing" || state.turnUid !== uid) return [];
+
+  const { aceHigh } = state.rules;
+  const moves: Move[] = [];
+  if (state.step === "draw") {
+    if (state.stock.length > 0) moves.push({ type: "drawStock" });
+
+    const pairs = combos(me.hand, 2);
+    state.discard.forEach((target, index) => {
+      for (const pair of pairs)
+        if (classifyMeld([...pair, target], aceHigh).ok)
+          moves.push({ type: "pickUp", index, cardIds: pair.map((c) => c.id) });
+      if (me.hasMelded)
+        for (const m of state.tableMelds)
+          if (canLayOff(m, target, aceHigh))
+            moves.push({ type: "pickUp", index, cardIds: [], meldId: m.id });
+    });
+    return moves;
+  }
+
+  for (const trio of combos(me.hand, 3))
+    if (
+      classifyMeld(trio, aceHigh).ok &&
+      trio.some((c) => state.cardOrigins[c.id]?.kind === "discard")
+    )
+      moves.push({ type: "layMeld", cardIds: trio.map((c) => c.id) });
+
+  if (me.hasMelded)
+    for (const c of me.hand)
+      for (const m of state.tableMelds)
+        if (canLayOff(m, c, aceHigh))
+          moves.push({ type: "layOff", cardId: c.id, meldId: m.id });
+
+  for (const c of me.hand) moves.push({ type: "discard", cardId: c.id });
+  return moves;
+}
+
+/** ท่าทั้งหมดที่ reducer ยอมรับ — บอทใช้การตรวจชุดเดียวกับคน */
+export function legalMoves(state: GameState, uid: string): Move[] {
+  return candidateMoves(state, uid).filter(
+    (m) => !("error" in applyAction(state, toAction(m, uid, 0)))
+  );
+}
+
+/** แต้มที่ได้จากการเกิด/ฝากไพ่ชุดนี้ */
+function meldValue(state: GameState, cards: CardT[]) {
+  return cards.reduce(
+    (sum, c) =>
+      sum +
+      cardPoints(c) +
+      (isSpeto(c) ? state.rules.spetoBonus : 0) +
+      (isHeadCard(state, c) ? HEAD_BONUS : 0),
+    0
+  );
+}
+
+const cardKey = (c: Pick<CardT, "s" | "r">) => `${c.s}${c.r}`;
+
+/** ไพ่ที่เกิดคู่กับ card ได้ (ตองต่างดอก / เรียงดอกเดียวกันห่างไม่เกิน 2) */
+function partnerKeys(card: CardT, aceHigh: boolean) {
+  const keys: string[] = [];
+  for (const s of ["S", "H", "D", "C"] as const)
+    if (s !== card.s) keys.push(cardKey({ s, r: card.r }));
+  // เล่น A สูง: A อยู่ได้ทั้งก่อน 2 และหลัง K (14)
+  const bases = aceHigh && card.r === 1 ? [1, 14] : [card.r];
+  for (const base of bases)
+    for (const d of [-2, -1, 1, 2]) {
+      const r = base + d;
+      if (r >= 1 && r <= 13) keys.push(cardKey({ s: card.s, r }));
+      else if (aceHigh && r === 14) keys.push(cardKey({ s: card.s, r: 1 }));
+    }
+  return keys;
+}
+
+/**
+ * ความเสี่ยงของการทิ้งใบนี้ (ยิ่งน้อยยิ่งควรทิ้ง)
+ * ดูจากข้อมูลที่ทุกคนเห็น: กองกลาง กองบนโต๊ะ และมือตัวเองเท่านั้น
+ */
+function discardRisk(state: GameState, uid: string, card: CardT) {
+  const hand = state.players[uid].hand;
+  const seen = new Set<string>();
+  for (const c of state.discard) seen.add(cardKey(c));
+  for (const m of state.tableMelds)
+    for (const c of m.cards) seen.add(cardKey(c));
+  for (const c of hand) seen.add(cardKey(c));
+
+  let risk = 0;
+  // ฝากลงกองบนโต๊ะได้ = ทิ้งให้คนถัดไปฝาก โดนโง่
+  if (state.tableMelds.some((m) => canLayOff(m, card, state.rules.aceHigh)))
+    risk += 100;
+  if (isSpeto(card)) risk += 80;
+
+  // คู่ที่ยังไม่โผล่ = อาจอยู่ในมือคนอื่น
+  const keys = partnerKeys(card, state.rules.aceHigh);
+  risk += keys.filter((k) => !seen.has(k)).length * 5;
+
+  // ยังจับคู่กับไพ่ในมือได้ เก็บไว้ก่อน
+  const own = new Set(hand.filter((c) => c.id !== card.id).map(cardKey));
+  risk += keys.filter((k) => own.has(k)).length * 15;
+
+  // แต้มสูงค้างมือเสียเยอะ ทิ้งก่อน
+  return risk - cardPoints(card);
+}
+
+function bestBy<T>(items: T[], score: (x: T) => number): T | null {
+  let best: T | null = null;
+  let bestScore = -Infinity;
+  for (const x of items) {
+    const v = score(x);
+    if (v > bestScore) {
+      best = x;
+      bestScore = v;
+    }
+  }
+  return best;
+}
+
+function smartMove(state: GameState, uid: string, moves: Move[]): Move {
+  const me = state.players[uid];
+  const byId = (ids: string[]) => me.hand.filter((c) => ids.includes(c.id));
+
+  if (state.step === "draw") {
+    // เก็บเมื่อแต้มที่ได้คุ้มกับไพ่ที่ทับอยู่ข้างบนซึ่งจะเข้ามือ
+    const gain = (m: Move) => {
+      if (m.type !== "pickUp") return 0;
+      const target = state.discard[m.index];
+      const above = state.discard.slice(m.index + 1);
+      return (
+        meldValue(state, [...byId(m.cardIds), target]) -
+        handValue(above, state.rules.spetoBonus) / 2
+      );
+    };
+    const pick = bestBy(
+      moves.filter((m) => m.type === "pickUp"),
+      gain
+    );
+    const draw = moves.find((m) => m.type === "drawStock");
+    if (pick && (gain(pick) > 0 || !draw)) return pick;
+    return draw ?? moves[0];
+  }
+
+  const meld = bestBy(
+    moves.filter((m) => m.type === "layMeld"),
+    (m) => (m.type === "layMeld" ? meldValue(state, byId(m.cardIds)) : 0)
+  );
+  if (meld) return meld;
+
+  const layOff = bestBy(
+    moves.filter((m) => m.type === "layOff"),
+    (m) => (m.type === "layOff" ? meldValue(state, byId([m.cardId])) : 0)
+  );
+  if (layOff) return layOff;
+
+  const discard = bestBy(
+    moves.filter((m) => m.type === "discard"),
+    (m) =>
+      m.type === "discard" ? -discardRisk(state, uid, byId([m.cardId])[0]) : 0
+  );
+  return discard ?? moves[0];
+}
+
+/** ท่าถัดไปของบอท (null = ไม่มีท่าที่เล่นได้) */
+export function chooseBotMove(
+  state: GameState,
+  uid: string,
+  level: BotLevel,
+  random: () => number = Math.random
+): Move | null {
+  const moves = legalMoves(state, uid);
+  if (moves.length === 0) return null;
+  if (level === "smart") return smartMove(state, uid, moves);
+  return moves[Math.floor(random() * moves.length)];
+}
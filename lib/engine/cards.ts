@@ -0,0 +1,83 @@
+// lib/engine/cards.ts
+import type { CardT, Suit } from "./types";
+
+export const SUITS: Suit[] = ["C", "D", "H", "S"];
+
+export function cardLabel(c: CardT) {
+  const r =
+    c.r === 1
+      ? "A"
+      : c.r === 11
+      ? "J"
+      : c.r === 12
+      ? "Q"
+      : c.r === 13
+      ? "K"
+      : String(c.r);
+  const s = c.s === "C" ? "♣" : c.s === "D" ? "♦" : c.s === "H" ? "♥" : "♠";
+  return `${r}${s}`;
+}
+
+const SUIT_NAMES: Record<Suit, string> = {
+  C: "ดอกจิก",
+  D: "ข้าวหลามตัด",
+  H: "โพแดง",
+  S: "โพดำ",
+};
+
+/** ชื่อไพ่แบบอ่านออกเสียงได้ (ใช้กับ screen reader แทน ♠♥♦♣) */
+export function cardName(c: CardT) {
+  return `${cardLabel(c).slice(0, -1)} ${SUIT_NAMES[c.s]}`;
+}
+
+/** แปลง id คงที่ (เช่น S-12) กลับเป็นไพ่ — id ไม่ถูกต้อง = null */
+export function cardFromId(id: string): CardT | null {
+  const m = /^([CDHS])-(\d{1,2})$/.exec(id);
+  const r = m ? Number(m[2]) : 0;
+  return m && r >= 1 && r <= 13 ? { id, r, s: m[1] as Suit } : null;
+}
+
+/** สำรับเรียงตามดอก/แต้ม — id คงที่ (เช่น S-12 = Q♠) เพราะใช้สำรับเดียว */
+export function makeDeck(): CardT[] {
+  const deck: CardT[] = [];
+  for (const s of SUITS) {
+    for (let r = 1; r <= 13; r++) deck.push({ id: `${s}-${r}`, r, s });
+  }
+  return deck;
+}
+
+/** PRNG จาก seed (mulberry32) — seed เดียวกันได้ลำดับเดียวกันทุกเครื่อง */
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** seed ใหม่สำหรับตาถัดไป (จำนวนเต็ม 32 บิต) */
+export function randomSeed(random: () => number = Math.random) {
+  return Math.floor(random() * 2 ** 32);
+}
+
+export function shuffle<T>(arr: T[], random: () => number = Math.random) {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/** สำรับที่สับด้วย seed — seed + ลำดับผู้เล่นเดิม = มือ หัว และกองจั่วเดิมทุกครั้ง */
+export function shuffledDeck(seed: number) {
+  return shuffle(makeDeck(), seededRandom(seed));
+}
+
+/** ตัด field อื่น (fromUid/at ของกองกลาง) ออก เหลือแค่ตัวไพ่ */
+export function plainCard(c: CardT): CardT {
+  return { id: c.id, r: c.r, s: c.s };
+}
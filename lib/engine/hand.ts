@@ -0,0 +1,107 @@
+// lib/engine/hand.ts
+import type { CardT, GameState, MeldKind } from "./types";
+import { SUITS } from "./cards";
+import { canLayOff, classifyMeld } from "./melds";
+
+/** วิธีเรียงไพ่ในมือ: manual = ตามที่ผู้เล่นลากจัดเอง */
+export type HandSort = "manual" | "suit" | "rank";
+
+/** แต้มที่ใช้เรียง (เล่น A สูง = A อยู่หลัง K) */
+function sortRank(c: CardT, aceHigh: boolean) {
+  return c.r === 1 && aceHigh ? 14 : c.r;
+}
+
+export function sortHand(cards: CardT[], by: "suit" | "rank", aceHigh = false) {
+  const suit = (c: CardT) => SUITS.indexOf(c.s);
+  return [...cards].sort((a, b) =>
+    by === "suit"
+      ? suit(a) - suit(b) || sortRank(a, aceHigh) - sortRank(b, aceHigh)
+      : sortRank(a, aceHigh) - sortRank(b, aceHigh) || suit(a) - suit(b)
+  );
+}
+
+/** เรียงมือตามลำดับ id ที่บันทึกไว้ — ใบที่ไม่อยู่ในลำดับ (เพิ่งได้มา) ต่อท้าย */
+export function orderHand(cards: CardT[], order: string[]) {
+  const pos = new Map(order.map((id, i) => [id, i]));
+  return [...cards].sort(
+    (a, b) => (pos.get(a.id) ?? Infinity) - (pos.get(b.id) ?? Infinity)
+  );
+}
+
+export type MeldSuggestion =
+  | { type: "meld"; kind: MeldKind; cardIds: string[] } // เกิดจากไพ่ในมือ
+  | { type: "pickUp"; index: number; kind: MeldKind; cardIds: string[] } // เก็บ discard[index] มาเกิดกับไพ่ในมือ
+  | { type: "layOff"; cardId: string; meldId: string }; // ฝากลงกองบนโต๊ะ
+
+/** ไพ่ดอกเดียวกันที่เรียงต่อกันยาวสุด (3 ใบขึ้นไป) */
+function runsOf(cards: CardT[], aceHigh: boolean) {
+  const out: CardT[][] = [];
+  for (const s of SUITS) {
+    const bySuit = cards.filter((c) => c.s === s);
+    // A อยู่ได้ทั้งก่อน 2 และหลัง K (ถ้าเล่น A สูง)
+    const ranked = bySuit.map((c) => ({ c, r: c.r }));
+    if (aceHigh)
+      for (const c of bySuit) if (c.r === 1) ranked.push({ c, r: 14 });
+    ranked.sort((a, b) => a.r - b.r);
+
+    let seq: typeof ranked = [];
+    for (const x of ranked) {
+      const prev = seq[seq.length - 1];
+      if (prev && x.r === prev.r + 1) seq.push(x);
+      else {
+        if (seq.length >= 3) out.push(seq.map((y) => y.c));
+        seq = [x];
+      }
+    }
+    if (seq.length >= 3) out.push(seq.map((y) => y.c));
+  }
+  return out;
+}
+
+/**
+ * ท่าที่ทำได้จากมือนี้ (ตรวจด้วย classifyMeld/canLayOff ชุดเดียวกับ engine)
+ * ตองและเรียงให้เป็นกลุ่มยาวสุด — เกิดจากมือได้เฉพาะกลุ่มที่มีไพ่จากกองกลาง (fromDiscard) อย่างน้อย 1 ใบ
+ */
+export function suggestMelds(
+  hand: CardT[],
+  state: Pick<GameState, "discard" | "tableMelds" | "rules">,
+  hasMelded: boolean,
+  fromDiscard: string[]
+): MeldSuggestion[] {
+  const { aceHigh } = state.rules;
+  const out: MeldSuggestion[] = [];
+  const ids = (cards: CardT[]) => cards.map((c) => c.id);
+
+  const byRank = new Map<number, CardT[]>();
+  for (const c of hand) byRank.set(c.r, [...(byRank.get(c.r) ?? []), c]);
+  const groups = [...byRank.values(), ...runsOf(hand, aceHigh)];
+  for (const cards of groups) {
+    if (!cards.some((c) => fromDiscard.includes(c.id))) continue;
+    const cls = classifyMeld(cards, aceHigh);
+    if (cls.ok)
+      out.push({ type: "meld", kind: cls.kind!, cardIds: ids(cards) });
+  }
+
+  state.discard.forEach((target, index) => {
+    hand.forEach((a, i) => {
+      for (const b of hand.slice(i + 1)) {
+        const cls = classifyMeld([a, b, target], aceHigh);
+        if (cls.ok)
+          out.push({
+            type: "pickUp",
+            index,
+            kind: cls.kind!,
+            cardIds: [a.id, b.id],
+          });
+      }
+    });
+  });
+
+  if (hasMelded)
+    for (const c of hand)
+      for (const m of state.tableMelds)
+        if (canLayOff(m, c, aceHigh))
+          out.push({ type: "layOff", cardId: c.id, meldId: m.id });
+
+  return out;
+}
@@ -0,0 +1,14 @@
+// lib/engine/index.ts
+// กติกาไพ่ดัมมี่แบบ pure (ไม่ผูกกับ React/Firebase) — ใช้ได้ทั้งฝั่ง client, server และ bot
+export * from "./types";
+export * from "./cards";
+export * from "./rules";
+export * from "./melds";
+export * from "./reducer";
+export * from "./scoring";
+export * from "./match";
+export * from "./visibility";
+export * from "./bots";
+export * from "./timer";
+export * from "./log";
+export * from "./hand";
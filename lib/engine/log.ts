@@ -0,0 +1,257 @@
+// lib/engine/log.ts
+import type {
+  Action,
+  ActionResult,
+  CardT,
+  EndReason,
+  GameState,
+} from "./types";
+import { abandonRound, applyAction } from "./reducer";
+import { newRoundState } from "./match";
+import { normalizeRules } from "./rules";
+import { autoPlayTurn } from "./timer";
+
+/** สิ่งที่เปลี่ยน state ของตา: action ของ reducer หรือคำสั่งที่ server ทำแทน */
+export type LoggedAction =
+  | Action
+  | { type: "timeout"; at: number } // หมดเวลา: autoPlayTurn เล่นแทนคนที่ถึงตา
+  | { type: "abandon"; uid: string; at: number } // host สั่งจบตานี้
+  | { type: "undo"; uid: string; at: number }; // ย้อนท่าล่าสุดที่ยังมีผล (undoLast)
+
+/** ทิ้งไพ่แล้วยังย้อนได้ภายในเวลานี้ ถ้าคนถัดไปยังไม่ได้เล่น */
+export const UNDO_DISCARD_MS = 5000;
+
+/** ผลย่อหลังทำ action (ดูใน log ได้เลยไม่ต้อง replay) */
+export type LogResult = {
+  turnUid: string | null;
+  step: GameState["step"];
+  phase: GameState["phase"];
+  endReason: EndReason | null;
+  scores: Record<string, number>;
+};
+
+export type LogEntry = { seq: number; action: LoggedAction; result: LogResult };
+
+/**
+ * log ของหนึ่งตา: ต่อท้ายอย่างเดียว (seq = ลำดับ เริ่มที่ 0 = แจกไพ่)
+ * เริ่มจาก newRoundState(firstUid, startedAt) แล้วทำ entries ตามลำดับ = state เดิมทุกขั้น
+ */
+export type HandLog = {
+  hand: number; // ตาที่เท่าไหร่ของห้อง (นับต่อเนื่องข้ามแมตช์ เริ่มที่ 1)
+  firstUid: string | null;
+  startedAt: number;
+  endedAt: number | null;
+  entries: LogEntry[];
+};
+
+export function createHandLog(
+  hand: number,
+  firstUid: string | null,
+  startedAt: number
+): HandLog {
+  return { hand, firstUid, startedAt, endedAt: null, entries: [] };
+}
+
+/** ทำ action หนึ่งรายการใน log (ใช้ทั้งตอนเล่นจริงและตอน replay) */
+export function applyLogged(
+  state: GameState,
+  action: LoggedAction
+): ActionResult {
+  switch (action.type) {
+    case "timeout":
+      return autoPlayTurn(state, action.at);
+    case "abandon":
+      return abandonRound(state, action.at);
+    case "undo":
+      return { error: "ย้อนท่าต้องใช้ log ทั้งตา (undoLast)" };
+    default:
+      return applyAction(state, action);
+  }
+}
+
+/** ต่อท้าย log ด้วย action ที่ทำสำเร็จแล้ว (state = ผลหลังทำ) */
+export function appendLog(
+  log: HandLog,
+  action: LoggedAction,
+  state: GameState
+): HandLog {
+  const scores: Record<string, number> = {};
+  for (const [uid, p] of Object.entries(state.players)) scores[uid] = p.score;
+  const entry: LogEntry = {
+    seq: log.entries.length,
+    action,
+    result: {
+      turnUid: state.turnUid,
+      step: state.step,
+      phase: state.phase,
+      endReason: state.endReason,
+      scores,
+    },
+  };
+  return { ...log, endedAt: state.endedAt, entries: [...log.entries, entry] };
+}
+
+/**
+ * state ทุกขั้นของตา: [0] = ก่อนแจก, [i] = หลังทำ entries[i - 1]
+ * undo = กลับไปเป็น state ก่อนท่าล่าสุดที่ยังมีผล
+ * log เสีย (ทำ action ต่อไม่ได้) = หยุดที่ขั้นสุดท้ายที่ทำได้
+ */
+export function replayStates(log: HandLog): GameState[] {
+  const initial = newRoundState(log.firstUid, log.startedAt);
+  const states = [initial];
+  const history = [initial]; // state ที่ยังมีผล ไล่ตามลำดับ
+  for (const entry of log.entries) {
+    if (entry.action.type === "undo") {
+      if (history.length > 1) history.pop();
+    } else {
+      const res = applyLogged(history[history.length - 1], entry.action);
+      if ("error" in res) break;
+      history.push(res.state);
+    }
+    states.push(history[history.length - 1]);
+  }
+  return states;
+}
+
+/** สร้าง GameState หลังทำ steps รายการแรกของ log */
+export function replayHand(log: HandLog, steps = log.entries.length) {
+  return replayStates({ ...log, entries: log.entries.slice(0, steps) }).pop()!;
+}
+
+/** entry ที่ยังมีผล (ตัดคู่ที่ถูก undo ออก) */
+function effectiveEntries(log: HandLog) {
+  const out: LogEntry[] = [];
+  for (const e of log.entries) {
+    if (e.action.type === "undo") out.pop();
+    else out.push(e);
+  }
+  return out;
+}
+
+/**
+ * ใครย้อนท่าล่าสุดได้ และได้ถึงเมื่อไหร่ (until = null คือได้จนกว่าจะเล่นท่าอื่น)
+ * ย้อนได้แค่ท่าของตัวเองในตานั้น และต้องไม่เปิดไพ่ที่ยังไม่มีใครเห็น:
+ * จั่วจากกองจั่ว / กินหัว (ตั้งหัวใหม่จากกองจั่ว) ย้อนไม่ได้ ตาจบแล้วก็ย้อนไม่ได้
+ */
+export function undoWindow(
+  log: HandLog | null
+): { uid: string; until: number | null } | null {
+  const last = log ? effectiveEntries(log).pop() : null;
+  if (!last || last.result.phase !== "playing") return null;
+  const a = last.action;
+  switch (a.type) {
+    case "layMeld":
+    case "layOff":
+      return { uid: a.uid, until: null };
+    case "pickUp":
+      return a.index === 0 ? null : { uid: a.uid, until: null };
+    case "discard":
+      return { uid: a.uid, until: a.at + UNDO_DISCARD_MS };
+    default:
+      return null;
+  }
+}
+
+/**
+ * ย้อนท่าล่าสุดของ uid: ต่อท้าย log ด้วย undo แล้วคืน state ก่อนท่านั้น
+ * (นาฬิกาต่อตาไม่เริ่มใหม่ — ย้อนเพื่อถ่วงเวลาไม่ได้)
+ */
+export function undoLast(
+  log: HandLog,
+  uid: string,
+  at: number
+): { state: GameState; log: HandLog } | { error: string } {
+  const w = undoWindow(log);
+  if (!w || w.uid !== uid) return { error: "ย้อนท่านี้ไม่ได้" };
+  if (w.until != null && at > w.until)
+    return { error: "เลยเวลาย้อนการทิ้งแล้ว" };
+
+  const kept = effectiveEntries(log).slice(0, -1);
+  const states = replayStates({ ...log, entries: kept });
+  // replay ไม่ครบทุกท่า = log ไม่ตรงกับเกมจริง ห้ามเขียน state ครึ่ง ๆ กลาง ๆ ทับ
+  if (states.length !== kept.length + 1)
+    return { error: "ย้อนไม่ได้: log ของตานี้ไม่ครบ" };
+  const state = states[states.length - 1];
+  return { state, log: appendLog(log, { type: "undo", uid, at }, state) };
+}
+
+/**
+ * ท่าล่าสุดที่เปิดเผยได้ (ประกาศให้ทุกคนในห้องรู้ว่าใครทำอะไร)
+ * ไม่มีการแจก (seed) และไพ่ที่จั่ว — cardIds คือไพ่ที่ทุกคนเห็นบนโต๊ะอยู่แล้ว
+ */
+export type PublicMove = {
+  seq: number;
+  type: Exclude<LoggedAction["type"], "deal">;
+  uid: string;
+  cardIds: string[];
+};
+
+export function publicMoves(log: HandLog | null, limit = 10): PublicMove[] {
+  if (!log) return [];
+  const states = replayStates(log);
+  const out: PublicMove[] = [];
+  for (const { seq, action } of log.entries.slice(-limit)) {
+    const before = states[seq];
+    const after = states[seq + 1];
+    if (!before || !after || action.type === "deal") continue;
+    const ids = (cards: (CardT | undefined)[]) =>
+      cards.flatMap((c) => (c ? [c.id] : []));
+    const cardIds =
+      action.type === "pickUp"
+        ? ids([before.discard[action.index]]).concat(action.cardIds)
+        : action.type === "layMeld"
+        ? action.cardIds
+        : action.type === "discard" || action.type === "layOff"
+        ? [action.cardId]
+        : action.type === "timeout" &&
+          after.discard.length > before.discard.length
+        ? ids([after.discard[after.discard.length - 1]])
+        : [];
+    const uid = "uid" in action ? action.uid : before.turnUid ?? "";
+    out.push({ seq, type: action.type, uid, cardIds });
+  }
+  return out;
+}
+
+/** เติม array/ค่า default ที่ RTDB ลบทิ้ง ให้ replay ได้ตรงกับตอนเล่น */
+function normalizeAction(raw: LoggedAction): LoggedAction {
+  switch (raw.type) {
+    case "deal":
+      return {
+        ...raw,
+        uids: raw.uids ?? [],
+        rules: normalizeRules(raw.rules),
+      };
+    case "pickUp":
+    case "layMeld":
+      return { ...raw, cardIds: raw.cardIds ?? [] };
+    default:
+      return raw;
+  }
+}
+
+export function normalizeHandLog(raw: unknown): HandLog | null {
+  if (!raw || typeof raw !== "object") return null;
+  const log = raw as Partial<HandLog>;
+  if (typeof log.hand !== "number" || typeof log.startedAt !== "number")
+    return null;
+  return {
+    hand: log.hand,
+    firstUid: log.firstUid ?? null,
+    startedAt: log.startedAt,
+    endedAt: log.endedAt ?? null,
+    entries: (log.entries ?? [])
+      .filter((e) => !!e?.action)
+      .map((e, seq) => ({
+        seq,
+        action: normalizeAction(e.action),
+        result: {
+          turnUid: e.result?.turnUid ?? null,
+          step: e.result?.step ?? "draw",
+          phase: e.result?.phase ?? "playing",
+          endReason: e.result?.endReason ?? null,
+          scores: e.result?.scores ?? {},
+        },
+      })),
+  };
+}
@@ -0,0 +1,120 @@
+// lib/engine/match.ts
+import type { GameState } from "./types";
+import { DEFAULT_RULES } from "./rules";
+
+export const DEFAULT_TARGET_SCORE = DEFAULT_RULES.targetScore;
+
+/** แมตช์หลายรอบ: สะสมแต้มจนมีคนถึงเป้า */
+export type Match = {
+  targetScore: number;
+  round: number; // รอบที่กำลังเล่น (เริ่มที่ 1)
+  seatUids: string[]; // ลำดับที่นั่ง ใช้หมุนคนเริ่มแต่ละรอบ
+  totals: Record<string, number>;
+  history: Record<string, number>[]; // แต้มของแต่ละรอบที่จบแล้ว
+  winnerUid: string | null;
+  finishedAt: number | null;
+};
+
+export function createMatch(
+  seatUids: string[],
+  targetScore = DEFAULT_TARGET_SCORE
+): Match {
+  const totals: Record<string, number> = {};
+  for (const uid of seatUids) totals[uid] = 0;
+  return {
+    targetScore,
+    round: 1,
+    seatUids,
+    totals,
+    history: [],
+    winnerUid: null,
+    finishedAt: null,
+  };
+}
+
+export function normalizeMatch(raw: unknown): Match | null {
+  if (!raw || typeof raw !== "object") return null;
+  const m = raw as Partial<Match>;
+  const seatUids = m.seatUids ?? [];
+  const totals: Record<string, number> = {};
+  for (const uid of seatUids) totals[uid] = m.totals?.[uid] ?? 0;
+  return {
+    targetScore: m.targetScore ?? DEFAULT_TARGET_SCORE,
+    round: m.round ?? 1,
+    seatUids,
+    totals,
+    history: (m.history ?? []).map((h) => h ?? {}),
+    winnerUid: m.winnerUid ?? null,
+    finishedAt: m.finishedAt ?? null,
+  };
+}
+
+/** คนเริ่มของรอบนี้: หมุนตามที่นั่งทีละคน */
+export function firstUidOfRound(match: Match) {
+  const n = match.seatUids.length;
+  if (n === 0) return null;
+  return match.seatUids[(match.round - 1) % n];
+}
+
+/** game เปล่าสำหรับเริ่มรอบ — หน้า /play จะแจกไพ่ผ่าน init transaction เอง */
+export function newRoundState(firstUid: string | null, at: number): GameState {
+  return {
+    phase: "playing",
+    startedAt: at,
+    turnUid: firstUid,
+    step: "draw",
+    rules: DEFAULT_RULES,
+    seed: null,
+    turnStartedAt: null,
+    headCardId: null,
+    stock: [],
+    discard: [],
+    cardOrigins: {},
+    tableMelds: [],
+    players: {},
+    seatUids: [],
+    winnerUid: null,
+    endedAt: null,
+    endReason: null,
+  };
+}
+
+/**
+ * บันทึกแต้มรอบที่จบแล้วเข้าแมตช์
+ * ถ้ามีคนถึงเป้า แมตช์จบ (แต้มรวมสูงสุดชนะ) ไม่งั้นขึ้นรอบถัดไป
+ */
+export function recordRound(match: Match, game: GameState, at: number): Match {
+  const roundScores: Record<string, number> = {};
+  const totals = { ...match.totals };
+  for (const uid of match.seatUids) {
+    const score = game.players[uid]?.score ?? 0;
+    roundScores[uid] = score;
+    totals[uid] = (totals[uid] ?? 0) + score;
+  }
+
+  const next: Match = {
+    ...match,
+    totals,
+    history: [...match.history, roundScores],
+  };
+
+  const reached = match.seatUids.filter(
+    (uid) => totals[uid] >= match.targetScore
+  );
+  if (reached.length > 0) {
+    next.winnerUid = reached.reduce((best, uid) =>
+      totals[uid] > totals[best] ? uid : best
+    );
+    next.finishedAt = at;
+  } else {
+    next.round = match.round + 1;
+  }
+  return next;
+}
+
+/** อันดับรวม เรียงจากแต้มมากไปน้อย */
+export function standings(match: Match) {
+  return [...match.seatUids]
+    .map((uid) => ({ uid, total: match.totals[uid] ?? 0 }))
+    .sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,55 @@
+// lib/engine/melds.ts
+import type { CardT, Meld, MeldKind } from "./types";
+
+export function isValidSet(cards: CardT[]) {
+  if (cards.length < 3) return false;
+  const r = cards[0].r;
+  if (!cards.every((c) => c.r === r)) return false;
+  const suits = new Set(cards.map((c) => c.s));
+  return suits.size === cards.length;
+}
+
+function isConsecutive(ranks: number[]) {
+  const rs = [...ranks].sort((a, b) => a - b);
+  for (let i = 1; i < rs.length; i++) if (rs[i] !== rs[i - 1] + 1) return false;
+  return true;
+}
+
+/** แต้มของ A ในเรียงนี้: 14 ถ้าเล่น A สูงและเรียงเป็น Q-K-A เท่านั้น */
+function aceRank(cards: CardT[], aceHigh: boolean) {
+  if (!aceHigh || isConsecutive(cards.map((c) => c.r))) return 1;
+  return 14;
+}
+
+/** เรียง: ดอกเดียวกันต่อกัน 3 ใบขึ้นไป (aceHigh = ให้ A ต่อหลัง K ได้) */
+export function isValidRun(cards: CardT[], aceHigh = false) {
+  if (cards.length < 3) return false;
+  const s = cards[0].s;
+  if (!cards.every((c) => c.s === s)) return false;
+  const ace = aceRank(cards, aceHigh);
+  return isConsecutive(cards.map((c) => (c.r === 1 ? ace : c.r)));
+}
+
+export function classifyMeld(
+  cards: CardT[],
+  aceHigh = false
+): { ok: boolean; kind?: MeldKind } {
+  if (isValidSet(cards)) return { ok: true, kind: "set" };
+  if (isValidRun(cards, aceHigh)) return { ok: true, kind: "run" };
+  return { ok: false };
+}
+
+/** เรียงไพ่ในกองให้อ่านง่าย: เรียงตามแต้ม (ตองเรียงตามดอก) */
+export function sortMeldCards(kind: MeldKind, cards: CardT[], aceHigh = false) {
+  const ace = aceRank(cards, aceHigh);
+  const rank = (c: CardT) => (c.r === 1 ? ace : c.r);
+  return [...cards].sort((a, b) =>
+    kind === "run" ? rank(a) - rank(b) : a.s.localeCompare(b.s)
+  );
+}
+
+/** ฝาก: เพิ่มไพ่ 1 ใบต่อกองเดิมแล้วยังเป็นชนิดเดิม (ตองเพิ่มดอก / เรียงต่อหัวหรือท้าย) */
+export function canLayOff(meld: Meld, card: CardT, aceHigh = false) {
+  const cls = classifyMeld([...meld.cards, card], aceHigh);
+  return cls.ok && cls.kind === meld.kind;
+}
@@ -0,0 +1,496 @@
+// lib/engine/reducer.ts
+import type {
+  Action,
+  ActionResult,
+  CardT,
+  DiscardCard,
+  EndReason,
+  GamePlayer,
+  GameState,
+  Meld,
+  MeldKind,
+  Move,
+  Origin,
+  PenaltyReason,
+  PlayerAction,
+} from "./types";
+import { plainCard, shuffledDeck } from "./cards";
+import { DEFAULT_RULES, normalizeRules } from "./rules";
+import { canLayOff, classifyMeld, sortMeldCards } from "./melds";
+import {
+  FEED_PENALTY,
+  SPETO_FEED_PENALTY,
+  isSpeto,
+  scoreBreakdown,
+} from "./scoring";
+
+/** จำนวนไพ่ที่แจกต่อคนตามมาตรฐาน: 2 คน = 11, 3 คน = 9, 4 คน = 7 */
+export function handSizeFor(playerCount: number) {
+  if (playerCount <= 2) return 11;
+  if (playerCount === 3) return 9;
+  return 7;
+}
+
+/**
+ * แปลงค่าดิบจาก Firebase ให้เป็น GameState ที่ครบทุก field
+ * (RTDB จะลบ array ว่าง/ค่า null ทิ้ง เลยต้องเติม default กลับ)
+ */
+export function normalizeGame(raw: unknown): GameState | null {
+  if (!raw || typeof raw !== "object") return null;
+  const game = raw as Partial<GameState>;
+  if (game.phase !== "playing" && game.phase !== "results") return null;
+
+  const players: Record<string, GamePlayer> = {};
+  for (const [puid, p] of Object.entries(game.players ?? {})) {
+    players[puid] = {
+      name: p?.name ?? "Player",
+      hand: p?.hand ?? [],
+      hasMelded: !!p?.hasMelded,
+      score: p?.score ?? 0,
+      scoredCards: p?.scoredCards ?? [],
+      penalties: p?.penalties ?? [],
+      lastTurnTookDiscardFromUid: p?.lastTurnTookDiscardFromUid ?? null,
+    };
+  }
+
+  return {
+    phase: game.phase,
+    startedAt: game.startedAt ?? null,
+    turnUid: game.turnUid ?? null,
+    step: game.step ?? "draw",
+    rules: normalizeRules(game.rules),
+    seed: game.seed ?? null,
+    turnStartedAt: game.turnStartedAt ?? null,
+
+    headCardId: game.headCardId ?? null,
+    stock: game.stock ?? [],
+    discard: game.discard ?? [],
+
+    cardOrigins: game.cardOrigins ?? {},
+    tableMelds: (game.tableMelds ?? []).map((m) => ({
+      ...m,
+      cards: m.cards ?? [],
+    })),
+    players,
+    // game เก่าที่ยังไม่มี seatUids: ใช้ลำดับ key เดิม
+    seatUids: (game.seatUids ?? Object.keys(players)).filter(
+      (uid) => !!players[uid]
+    ),
+
+    winnerUid: game.winnerUid ?? null,
+    endedAt: game.endedAt ?? null,
+    endReason: game.endReason ?? null,
+  };
+}
+
+/** init แล้วหรือยัง (แจกไพ่ + ตั้งหัวแล้ว) */
+export function isDealt(state: GameState) {
+  return state.stock.length > 0 || state.discard.length > 0;
+}
+
+function fail(error: string): ActionResult {
+  return { error };
+}
+
+/** ตรวจว่าถึงตา uid และอยู่ใน step ที่ถูกต้อง */
+function checkTurn(
+  state: GameState,
+  uid: string,
+  step: GameState["step"]
+): string | null {
+  if (state.phase !== "playing" || state.winnerUid || state.endedAt)
+    return "เกมจบแล้ว";
+  if (!state.players[uid]) return "คุณไม่ได้อยู่ในเกมนี้";
+  if (state.turnUid !== uid) return "ยังไม่ถึงตาคุณ";
+  if (state.step !== step)
+    return step === "draw" ? "ต้องทิ้งก่อน" : "ต้องจั่ว/เก็บก่อน";
+  return null;
+}
+
+/** คนถัดไปตามลำดับที่นั่ง */
+function nextUid(state: GameState, uid: string) {
+  const uids = state.seatUids;
+  const curIndex = uids.indexOf(uid);
+  return uids[(curIndex + 1) % uids.length] ?? null;
+}
+
+/** โง่: หักแต้มคนที่ทิ้งไพ่ให้ toUid ได้ประโยชน์ */
+function addPenalty(
+  s: GameState,
+  uid: string,
+  toUid: string,
+  reason: PenaltyReason,
+  points: number,
+  at: number
+) {
+  const p = s.players[uid];
+  if (!p) return;
+  p.penalties.push({ reason, points, toUid, at });
+  p.score = scoreBreakdown(s, uid).total;
+}
+
+/** จบรอบ: ตั้งผู้ชนะ/เหตุที่จบ แล้วสรุปแต้ม (หักไพ่ค้างมือ) ให้ทุกคน */
+function endRound(
+  s: GameState,
+  at: number,
+  winnerUid: string | null,
+  reason: EndReason
+) {
+  // น็อคในตาที่เก็บใบที่เพิ่งทิ้งมา = คนทิ้งโง่
+  const feeder = winnerUid
+    ? s.players[winnerUid]?.lastTurnTookDiscardFromUid
+    : null;
+  if (winnerUid && feeder && feeder !== winnerUid)
+    addPenalty(s, feeder, winnerUid, "knockFeed", FEED_PENALTY, at);
+
+  s.phase = "results";
+  s.winnerUid = winnerUid;
+  s.endedAt = at;
+  s.endReason = reason;
+  for (const puid of Object.keys(s.players))
+    s.players[puid].score = scoreBreakdown(s, puid).total;
+}
+
+/** หาไพ่ในมือตาม id — คืน null ถ้ามีใบไหนไม่อยู่ในมือ */
+function pickFromHand(hand: CardT[], ids: string[]): CardT[] | null {
+  const picked: CardT[] = [];
+  for (const id of ids) {
+    const c = hand.find((x) => x.id === id);
+    if (!c) return null;
+    picked.push(c);
+  }
+  return picked;
+}
+
+/** วางกองใหม่บนโต๊ะ: ตัดไพ่ที่มาจากมือออก แล้วเก็บแต้มให้เจ้าของ */
+function placeMeld(
+  s: GameState,
+  uid: string,
+  cards: CardT[],
+  kind: MeldKind,
+  at: number
+) {
+  const me = s.players[uid];
+  const ids = cards.map((c) => c.id);
+  me.hand = me.hand.filter((c) => !ids.includes(c.id));
+
+  const meld: Meld = {
+    // id ของไพ่ไม่ซ้ำกันทั้งสำรับ เลยใช้ใบแรกเป็น id ของกองได้
+    id: `meld-${cards[0].id}`,
+    ownerUid: uid,
+    kind,
+    cards: sortMeldCards(kind, cards, s.rules.aceHigh),
+    createdAt: at,
+  };
+  s.tableMelds.push(meld);
+
+  me.hasMelded = true;
+  me.scoredCards.push(...cards);
+  me.score = scoreBreakdown(s, uid).total;
+}
+
+/** ✅ แจกไพ่ + ตั้ง “หัว” เป็นฐานของกองกลาง (discard[0]) */
+function deal(
+  s: GameState,
+  a: Extract<Action, { type: "deal" }>
+): ActionResult {
+  if (isDealt(s)) return fail("แจกไพ่ไปแล้ว");
+  if (a.uids.length === 0) return fail("ไม่มีผู้เล่น");
+  // uid ซ้ำ = ได้ไพ่สองมือรวมกันและเสียลำดับตา — server กันไว้ตั้งแต่ start แล้ว
+  if (new Set(a.uids).size !== a.uids.length)
+    throw new Error(`deal: uid ซ้ำกัน (${a.uids.join(", ")})`);
+
+  const deck = shuffledDeck(a.seed);
+  const rules = a.rules ?? DEFAULT_RULES;
+
+  // แจกตามจำนวนคน (หรือตามที่ห้องตั้งไว้) — ต้องเหลือไพ่อย่างน้อย 1 ใบไว้เป็นหัว
+  const handSize = rules.handSize ?? handSizeFor(a.uids.length);
+  if (handSize < 1 || handSize * a.uids.length >= deck.length)
+    return fail("จำนวนไพ่ที่แจกต่อคนไม่ถูกต้อง");
+
+  const hands: Record<string, CardT[]> = {};
+  for (const puid of a.uids) hands[puid] = [];
+  for (let i = 0; i < handSize; i++) {
+    for (const puid of a.uids) hands[puid].push(deck.pop()!);
+  }
+
+  // stock ที่เหลือ
+  const stock = deck;
+
+  // ตั้ง “หัว” = ใบแรกที่เปิดเป็นฐานกองกลาง (หยิบ 1 ใบจาก stock มาวาง discard)
+  const head = stock.pop() ?? null;
+
+  const players: Record<string, GamePlayer> = {};
+  const cardOrigins: Record<string, Origin> = {};
+
+  for (const puid of a.uids) {
+    players[puid] = {
+      name: a.names?.[puid] ?? s.players[puid]?.name ?? "Player",
+      hand: hands[puid],
+      hasMelded: false,
+      score: 0,
+      scoredCards: [],
+      penalties: [],
+      lastTurnTookDiscardFromUid: null,
+    };
+    for (const c of hands[puid])
+      cardOrigins[c.id] = { kind: "stock", fromUid: null };
+  }
+
+  s.stock = stock;
+  s.discard = head ? [{ ...head, fromUid: null, at: a.at }] : [];
+  s.headCardId = head?.id ?? null;
+
+  s.players = players;
+  s.seatUids = [...a.uids];
+  s.cardOrigins = cardOrigins;
+  s.tableMelds = [];
+  s.turnUid = s.turnUid ?? a.uids[0] ?? null;
+  s.step = "draw";
+  s.rules = rules;
+  s.seed = a.seed;
+  s.turnStartedAt = a.at;
+  s.winnerUid = null;
+  s.endedAt = null;
+  s.endReason = null;
+  return { state: s };
+}
+
+function drawStock(
+  s: GameState,
+  a: Extract<Action, { type: "drawStock" }>
+): ActionResult {
+  const err = checkTurn(s, a.uid, "draw");
+  if (err) return fail(err);
+  if (s.stock.length === 0) return fail("กองจั่วหมด");
+
+  const card = s.stock.pop()!;
+  const me = s.players[a.uid];
+  me.hand.push(card);
+  s.cardOrigins[card.id] = { kind: "stock", fromUid: null };
+
+  me.lastTurnTookDiscardFromUid = null;
+  s.step = "discard";
+  return { state: s };
+}
+
+/**
+ * เก็บจากกองกลาง: เลือกใบที่ index ไหนก็ได้ ใบนั้นต้องใช้ทันที —
+ * เกิดกับไพ่ที่เลือกในมือ หรือฝากลงกองบนโต๊ะ (meldId)
+ * ไพ่ที่ทับอยู่ข้างบนทั้งหมดเข้ามือ — ถ้าเลือกหัว (index 0) = กินหัว ตั้งหัวใบใหม่จากกองจั่ว
+ */
+function pickUp(
+  s: GameState,
+  a: Extract<Action, { type: "pickUp" }>
+): ActionResult {
+  const err = checkTurn(s, a.uid, "draw");
+  if (err) return fail(err);
+  if (s.discard.length === 0) return fail("กองกลางว่าง");
+  if (!Number.isInteger(a.index) || a.index < 0 || a.index >= s.discard.length)
+    return fail("ไม่มีไพ่ใบนี้ในกองกลาง");
+
+  const me = s.players[a.uid];
+  const target = s.discard[a.index];
+  const above = s.discard.slice(a.index + 1);
+
+  // ใช้ใบที่เก็บ: ฝากลงกองเดิม หรือเกิดกองใหม่
+  let layOffTo: Meld | null = null;
+  let cards: CardT[] = [];
+  let kind: MeldKind | null = null;
+  if (a.meldId) {
+    if (!me.hasMelded) return fail("ต้องเกิดก่อนถึงจะฝากได้");
+    layOffTo = s.tableMelds.find((m) => m.id === a.meldId) ?? null;
+    if (!layOffTo) return fail("ไม่พบกองนี้บนโต๊ะ");
+    if (!canLayOff(layOffTo, target, s.rules.aceHigh))
+      return fail("ฝากไพ่ใบที่เก็บลงกองนี้ไม่ได้");
+  } else {
+    const fromHand = pickFromHand(me.hand, a.cardIds);
+    if (!fromHand) return fail("ไม่มีไพ่ใบนี้ในมือ");
+
+    cards = [...fromHand, plainCard(target)];
+    const cls = classifyMeld(cards, s.rules.aceHigh);
+    if (!cls.ok)
+      return fail(
+        a.index === 0
+          ? "หัวต้องเกิดกับไพ่ที่เลือกในมือได้ทันที"
+          : "ไพ่ที่เก็บต้องเกิดกับไพ่ที่เลือกในมือได้ทันที"
+      );
+    kind = cls.kind!;
+  }
+
+  s.cardOrigins[target.id] = {
+    kind: "discard",
+    fromUid: target.fromUid ?? null,
+    ...(target.id === s.headCardId ? { head: true as const } : {}),
+  };
+
+  // ไพ่ที่ทับอยู่ข้างบนเข้ามือ
+  for (const c of above) {
+    me.hand.push(plainCard(c));
+    s.cardOrigins[c.id] = { kind: "discard", fromUid: c.fromUid ?? null };
+  }
+
+  if (a.index === 0) {
+    // กินหัว: ตั้งหัวใบใหม่
+    const newHead = s.stock.pop() ?? null;
+    s.discard = newHead ? [{ ...newHead, fromUid: null, at: a.at }] : [];
+    s.headCardId = newHead?.id ?? null;
+  } else {
+    s.discard = s.discard.slice(0, a.index);
+  }
+
+  // เก็บใบที่เพิ่งทิ้งมา (ใบบนสุด) ของคนอื่น = อาจเข้าข่าย “โง่”
+  const feeder =
+    above.length === 0 && target.fromUid && target.fromUid !== a.uid
+      ? target.fromUid
+      : null;
+  me.lastTurnTookDiscardFromUid = feeder;
+
+  if (layOffTo) {
+    layOffTo.cards = sortMeldCards(
+      layOffTo.kind,
+      [...layOffTo.cards, plainCard(target)],
+      s.rules.aceHigh
+    );
+    me.scoredCards.push(plainCard(target));
+    me.score = scoreBreakdown(s, a.uid).total;
+    if (feeder) addPenalty(s, feeder, a.uid, "layOffFeed", FEED_PENALTY, a.at);
+  } else {
+    placeMeld(s, a.uid, cards, kind!, a.at);
+  }
+  if (feeder && isSpeto(target))
+    addPenalty(s, feeder, a.uid, "spetoFeed", SPETO_FEED_PENALTY, a.at);
+
+  s.step = "discard";
+
+  if (me.hand.length === 0) endRound(s, a.at, a.uid, "knock");
+  return { state: s };
+}
+
+function discard(
+  s: GameState,
+  a: Extract<Action, { type: "discard" }>
+): ActionResult {
+  const err = checkTurn(s, a.uid, "discard");
+  if (err) return fail(err);
+
+  const hand = s.players[a.uid].hand;
+  const idx = hand.findIndex((c) => c.id === a.cardId);
+  if (idx < 0) return fail("ไม่มีไพ่ใบนี้ในมือ");
+
+  const [card] = hand.splice(idx, 1);
+
+  const dc: DiscardCard = { ...card, fromUid: a.uid, at: a.at };
+  s.discard.push(dc);
+  s.cardOrigins[card.id] = { kind: "discard", fromUid: a.uid };
+
+  // ทิ้งใบสุดท้าย = น็อค (ถ้าใบที่ทิ้งฝากลงกองบนโต๊ะได้ = ดัมมี่น็อค ได้โบนัสมากกว่า)
+  if (hand.length === 0) {
+    const dummy = s.tableMelds.some((m) => canLayOff(m, card, s.rules.aceHigh));
+    endRound(s, a.at, a.uid, dummy ? "dummyKnock" : "knock");
+    return { state: s };
+  }
+
+  // กองจั่วหมด = จบรอบโดยไม่มีคนน็อค
+  if (s.stock.length === 0) {
+    endRound(s, a.at, null, "stockOut");
+    return { state: s };
+  }
+
+  // next turn
+  s.turnUid = nextUid(s, a.uid);
+  s.step = "draw";
+  s.turnStartedAt = a.at;
+  return { state: s };
+}
+
+function layMeld(
+  s: GameState,
+  a: Extract<Action, { type: "layMeld" }>
+): ActionResult {
+  const err = checkTurn(s, a.uid, "discard");
+  if (err) return fail(err);
+  if (a.cardIds.length < 3) return fail("เลือก 3 ใบขึ้นไปเพื่อเกิด");
+
+  const me = s.players[a.uid];
+  const picked = pickFromHand(me.hand, a.cardIds);
+  if (!picked) return fail("ไม่มีไพ่ใบนี้ในมือ");
+
+  const cls = classifyMeld(picked, s.rules.aceHigh);
+  if (!cls.ok) return fail("ไพ่ที่เลือกไม่เป็นตองหรือเรียง");
+
+  // เกิด: ต้องมีไพ่ “ได้มาจากกองกลาง” อย่างน้อย 1 ใบ
+  const hasDiscardCard = picked.some(
+    (c) => s.cardOrigins[c.id]?.kind === "discard"
+  );
+  if (!hasDiscardCard) return fail("เกิดได้ต้องมีไพ่จากกองกลางอย่างน้อย 1 ใบ");
+
+  placeMeld(s, a.uid, picked, cls.kind!, a.at);
+
+  // เกิดจนหมดมือ ไม่เหลือไพ่ให้ทิ้ง = น็อคทันที
+  if (me.hand.length === 0) endRound(s, a.at, a.uid, "knock");
+  return { state: s };
+}
+
+/** ฝาก: วางไพ่ 1 ใบต่อกองบนโต๊ะ (ของใครก็ได้) แต้มเข้าคนที่ฝาก */
+function layOff(
+  s: GameState,
+  a: Extract<Action, { type: "layOff" }>
+): ActionResult {
+  const err = checkTurn(s, a.uid, "discard");
+  if (err) return fail(err);
+
+  const me = s.players[a.uid];
+  if (!me.hasMelded) return fail("ต้องเกิดก่อนถึงจะฝากได้");
+
+  const card = me.hand.find((c) => c.id === a.cardId);
+  if (!card) return fail("ไม่มีไพ่ใบนี้ในมือ");
+
+  const meld = s.tableMelds.find((m) => m.id === a.meldId);
+  if (!meld) return fail("ไม่พบกองนี้บนโต๊ะ");
+  if (!canLayOff(meld, card, s.rules.aceHigh))
+    return fail("ฝากไพ่ใบนี้ลงกองนี้ไม่ได้");
+
+  me.hand = me.hand.filter((c) => c.id !== card.id);
+  meld.cards = sortMeldCards(meld.kind, [...meld.cards, card], s.rules.aceHigh);
+  me.scoredCards.push(card);
+  me.score = scoreBreakdown(s, a.uid).total;
+
+  if (me.hand.length === 0) endRound(s, a.at, a.uid, "knock");
+  return { state: s };
+}
+
+/** host สั่งจบตานี้ (เช่น มีคนหลุดไปนาน) — ไม่มีผู้ชนะ หักไพ่ค้างมือตามปกติ */
+export function abandonRound(state: GameState, at: number): ActionResult {
+  if (state.phase !== "playing" || state.endedAt) return fail("เกมจบแล้ว");
+  const s = structuredClone(state);
+  endRound(s, at, null, "abandoned");
+  return { state: s };
+}
+
+/**
+ * reducer หลักของเกม: รับ state เดิม + action คืน state ใหม่ หรือ error
+ * ไม่แตะ state ที่ส่งเข้ามา (clone ก่อนเสมอ) จึงเรียกซ้ำใน transaction ได้
+ */
+export function applyAction(state: GameState, action: Action): ActionResult {
+  const s = structuredClone(state);
+  switch (action.type) {
+    case "deal":
+      return deal(s, action);
+    case "drawStock":
+      return drawStock(s, action);
+    case "pickUp":
+      return pickUp(s, action);
+    case "discard":
+      return discard(s, action);
+    case "layMeld":
+      return layMeld(s, action);
+    case "layOff":
+      return layOff(s, action);
+  }
+}
+
+/** เติม uid/at ให้ท่าของผู้เล่น กลายเป็น action ที่ส่งเข้า reducer ได้ */
+export function toAction(move: Move, uid: string, at: number): PlayerAction {
+  return { ...move, uid, at } as PlayerAction;
+}
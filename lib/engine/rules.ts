@@ -0,0 +1,52 @@
+// lib/engine/rules.ts
+import { DUMMY_KNOCK_BONUS, KNOCK_BONUS, SPETO_BONUS } from "./scoring";
+
+/** กติกาบ้านของห้อง (เลือกตอนสร้างห้อง) — engine อ่านจากตรงนี้ทุกจุด */
+export type HouseRules = {
+  handSize: number | null; // ไพ่ต่อคน (null = ตามจำนวนคน: handSizeFor)
+  aceHigh: boolean; // เรียง Q-K-A ได้ (A-2-3 ได้เสมอ แต่วนรอบ K-A-2 ไม่ได้)
+  spetoBonus: number; // โบนัสสเปโตต่อใบ (ค้างมือโดนหักเท่ากัน)
+  knockBonus: number;
+  dummyKnockBonus: number;
+  targetScore: number; // แต้มรวมที่จบแมตช์
+  turnSeconds: number | null; // เวลาต่อตา (null = ไม่จำกัด)
+};
+
+export const DEFAULT_RULES: HouseRules = {
+  handSize: null,
+  aceHigh: false,
+  spetoBonus: SPETO_BONUS,
+  knockBonus: KNOCK_BONUS,
+  dummyKnockBonus: DUMMY_KNOCK_BONUS,
+  targetScore: 1000,
+  turnSeconds: null,
+};
+
+/** ตัวเลือกในฟอร์มกติกา (ต้องอยู่ในช่วงที่ database.rules.json ยอม) */
+export const HAND_SIZE_OPTIONS = [7, 9, 11];
+export const SPETO_BONUS_OPTIONS = [0, 50, 100];
+export const KNOCK_BONUS_OPTIONS = [0, 50, 100];
+export const DUMMY_KNOCK_BONUS_OPTIONS = [50, 100, 200];
+export const TARGET_SCORE_OPTIONS = [500, 1000, 1500, 2000];
+
+function numberOr<T>(value: unknown, fallback: T) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+/** ค่าดิบจาก rooms/{roomId}/rules หรือ game.rules → กติกาครบทุก field */
+export function normalizeRules(raw: unknown): HouseRules {
+  const r = (raw && typeof raw === "object" ? raw : {}) as Partial<
+    Record<keyof HouseRules, unknown>
+  >;
+  return {
+    handSize: numberOr(r.handSize, null) || null,
+    aceHigh: r.aceHigh === true,
+    spetoBonus: numberOr(r.spetoBonus, DEFAULT_RULES.spetoBonus),
+    knockBonus: numberOr(r.knockBonus, DEFAULT_RULES.knockBonus),
+    dummyKnockBonus: numberOr(r.dummyKnockBonus, DEFAULT_RULES.dummyKnockBonus),
+    targetScore: numberOr(r.targetScore, 0) || DEFAULT_RULES.targetScore,
+    turnSeconds: numberOr(r.turnSeconds, null) || null,
+  };
+}
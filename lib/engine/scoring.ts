@@ -0,0 +1,96 @@
+// lib/engine/scoring.ts
+import type { CardT, GameState } from "./types";
+
+export const SPETO_BONUS = 50;
+export const HEAD_BONUS = 50;
+export const KNOCK_BONUS = 50;
+export const DUMMY_KNOCK_BONUS = 100;
+export const FEED_PENALTY = 50; // โง่: ทิ้งให้คนถัดไปฝาก/น็อค
+export const SPETO_FEED_PENALTY = 50; // โง่: ทิ้งสเปโตให้คนถัดไปเกิด
+
+/** แต้มไพ่ดัมมี่: 2–9 = 5, 10–K = 10, A = 15 */
+export function cardPoints(c: CardT) {
+  if (c.r === 1) return 15;
+  if (c.r >= 10) return 10;
+  return 5;
+}
+
+/** สเปโต: 2♣ และ Q♠ */
+export function isSpeto(c: CardT) {
+  return (c.r === 2 && c.s === "C") || (c.r === 12 && c.s === "S");
+}
+
+/** ไพ่ใบนี้เคยเป็น “หัว” หรือไม่ (หัวปัจจุบัน หรือหัวที่ถูกกินเข้ามือ) */
+export function isHeadCard(state: GameState, c: CardT) {
+  return c.id === state.headCardId || !!state.cardOrigins[c.id]?.head;
+}
+
+export type ScoreBreakdown = {
+  cards: number; // แต้มไพ่ที่เกิด/ฝาก
+  speto: number; // โบนัสสเปโต
+  head: number; // โบนัสเกิดหัว
+  knock: number; // โบนัสน็อค
+  penalty: number; // โง่ (ติดลบ)
+  hand: number; // ไพ่ค้างมือตอนจบรอบ (ติดลบ)
+  total: number;
+};
+
+/** มูลค่าไพ่ค้างมือ (สเปโตค้างมือโดนหักเท่าโบนัส) */
+export function handValue(cards: CardT[], spetoBonus = SPETO_BONUS) {
+  return cards.reduce(
+    (sum, c) => sum + cardPoints(c) + (isSpeto(c) ? spetoBonus : 0),
+    0
+  );
+}
+
+/**
+ * แต้มของผู้เล่นหนึ่งคน แยกที่มา (โบนัสสเปโต/น็อคตาม state.rules)
+ * ระหว่างเล่นยังไม่หักไพ่ในมือ — หักเมื่อรอบจบ (endedAt ถูกตั้งแล้ว)
+ */
+export function scoreBreakdown(
+  state: GameState,
+  uid: string,
+  roundOver = state.endedAt != null
+): ScoreBreakdown {
+  const p = state.players[uid];
+  if (!p)
+    return {
+      cards: 0,
+      speto: 0,
+      head: 0,
+      knock: 0,
+      penalty: 0,
+      hand: 0,
+      total: 0,
+    };
+
+  const { spetoBonus, knockBonus, dummyKnockBonus } = state.rules;
+  let cards = 0;
+  let speto = 0;
+  let head = 0;
+  for (const c of p.scoredCards) {
+    cards += cardPoints(c);
+    if (isSpeto(c)) speto += spetoBonus;
+    if (isHeadCard(state, c)) head += HEAD_BONUS;
+  }
+  const knock =
+    state.winnerUid !== uid
+      ? 0
+      : state.endReason === "dummyKnock"
+      ? dummyKnockBonus
+      : state.endReason === "knock"
+      ? knockBonus
+      : 0;
+  const penalty = -p.penalties.reduce((sum, x) => sum + x.points, 0);
+  const hand = roundOver ? -handValue(p.hand, spetoBonus) : 0;
+
+  return {
+    cards,
+    speto,
+    head,
+    knock,
+    penalty,
+    hand,
+    total: cards + speto + head + knock + penalty + hand,
+  };
+}
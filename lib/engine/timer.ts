@@ -0,0 +1,58 @@
+// lib/engine/timer.ts
+import type { ActionResult, CardT, GameState } from "./types";
+import { applyAction } from "./reducer";
+import { classifyMeld } from "./melds";
+import { cardPoints } from "./scoring";
+
+/** ตัวเลือกเวลาต่อตาในล็อบบี้ (วินาที) */
+export const TURN_SECONDS_OPTIONS = [30, 60, 90, 120];
+
+type TurnClock = Pick<GameState, "phase" | "rules" | "turnStartedAt">;
+
+/** เวลาที่ตาปัจจุบันหมด (null = ไม่จำกัดเวลา หรือรอบจบแล้ว) */
+export function turnDeadline(state: TurnClock): number | null {
+  const { turnSeconds } = state.rules;
+  if (state.phase !== "playing" || !turnSeconds) return null;
+  if (state.turnStartedAt == null) return null;
+  return state.turnStartedAt + turnSeconds * 1000;
+}
+
+export function isTurnExpired(state: TurnClock, now: number) {
+  const deadline = turnDeadline(state);
+  return deadline != null && now >= deadline;
+}
+
+/** ใบที่ทิ้งเมื่อหมดเวลา: ใบแต้มสูงสุดที่ยังเกิดกับไพ่อื่นในมือไม่ได้ */
+export function safeDiscard(hand: CardT[], aceHigh = false): CardT | null {
+  const meldable = (c: CardT) => {
+    const others = hand.filter((x) => x.id !== c.id);
+    return others.some((a, i) =>
+      others.slice(i + 1).some((b) => classifyMeld([a, b, c], aceHigh).ok)
+    );
+  };
+  const loose = hand.filter((c) => !meldable(c));
+  return (loose.length ? loose : hand).reduce<CardT | null>(
+    (best, c) => (!best || cardPoints(c) > cardPoints(best) ? c : best),
+    null
+  );
+}
+
+/**
+ * หมดเวลา: เล่นแทนคนที่ถึงตาแบบปลอดภัย
+ * จั่วจากกองจั่ว (ถ้ายังไม่ได้จั่ว/เก็บ) แล้วทิ้งใบที่ safeDiscard เลือก
+ */
+export function autoPlayTurn(state: GameState, at: number): ActionResult {
+  const uid = state.turnUid;
+  if (!uid || !isTurnExpired(state, at)) return { error: "ยังไม่หมดเวลา" };
+
+  let s = state;
+  if (s.step === "draw") {
+    const res = applyAction(s, { type: "drawStock", uid, at });
+    if ("error" in res) return res;
+    s = res.state;
+  }
+
+  const card = safeDiscard(s.players[uid].hand, s.rules.aceHigh);
+  if (!card) return { error: "ไม่มีไพ่ในมือให้ทิ้ง" };
+  return applyAction(s, { type: "discard", uid, cardId: card.id, at });
+}
@@ -0,0 +1,108 @@
+// lib/engine/types.ts
+import type { HouseRules } from "./rules";
+
+export type Suit = "C" | "D" | "H" | "S";
+export type CardT = { id: string; r: number; s: Suit }; // 1..13
+
+export type DiscardCard = CardT & { fromUid: string | null; at: number };
+
+export type Origin = {
+  kind: "stock" | "discard";
+  fromUid: string | null;
+  head?: true; // เป็นหัวที่ถูกกินเข้ามือ (ใช้คิดโบนัสเกิดหัว)
+};
+
+export type MeldKind = "set" | "run";
+export type Meld = {
+  id: string;
+  ownerUid: string;
+  kind: MeldKind;
+  cards: CardT[];
+  createdAt: number;
+};
+
+/** โง่: ทิ้งไพ่ให้คนถัดไปเก็บไปฝาก / น็อค / เกิดสเปโต */
+export type PenaltyReason = "layOffFeed" | "knockFeed" | "spetoFeed";
+export type Penalty = {
+  reason: PenaltyReason;
+  points: number;
+  toUid: string; // คนที่ได้ประโยชน์จากไพ่ที่ทิ้ง
+  at: number;
+};
+
+export type GamePlayer = {
+  name: string;
+  hand: CardT[];
+  hasMelded: boolean;
+  score: number;
+  scoredCards: CardT[];
+  penalties: Penalty[];
+  // เก็บใบที่เพิ่งทิ้งมา (ใบบนสุด) ของใครในตานี้ — ใช้ตัดสิน “โง่”
+  lastTurnTookDiscardFromUid?: string | null;
+};
+
+/** เหตุที่รอบจบ: น็อค / น็อคด้วยไพ่ที่ฝากได้ (ดัมมี่น็อค) / กองจั่วหมด / host สั่งจบ */
+export type EndReason = "knock" | "dummyKnock" | "stockOut" | "abandoned";
+
+export type GameState = {
+  phase: "playing" | "results";
+  startedAt: number | null;
+
+  turnUid: string | null;
+  step: "draw" | "discard";
+  rules: HouseRules; // กติกาบ้านของรอบนี้ (คัดลอกจากห้องตอนแจก)
+  seed: number | null; // seed ที่ใช้สับสำรับ (shuffledDeck) — ใช้เล่นตาเดิมซ้ำได้
+  // นาฬิกาต่อตา: เริ่มนับจาก turnStartedAt นาน rules.turnSeconds
+  turnStartedAt: number | null;
+
+  headCardId: string | null; // หัว (ฐาน)
+  stock: CardT[];
+  discard: DiscardCard[]; // discard[0] = head เสมอ (หลัง init)
+
+  cardOrigins: Record<string, Origin>;
+  tableMelds: Meld[];
+  players: Record<string, GamePlayer>;
+  // ลำดับที่นั่ง = ลำดับการเล่น (ไม่ใช้ลำดับ key ของ players เพราะ RTDB เรียง key ใหม่)
+  seatUids: string[];
+
+  winnerUid: string | null;
+  endedAt: number | null;
+  endReason: EndReason | null;
+};
+
+/** ทุก action มี `at` (เวลาที่กด) เพื่อให้ reducer ไม่ต้องเรียก Date.now() เอง */
+export type Action =
+  | {
+      type: "deal";
+      uids: string[];
+      seed: number; // สำรับ = shuffledDeck(seed)
+      rules?: HouseRules; // ไม่ระบุ = DEFAULT_RULES
+      names?: Record<string, string>; // ชื่อที่แสดงของแต่ละ uid (จาก slot/โปรไฟล์)
+      at: number;
+    }
+  | { type: "drawStock"; uid: string; at: number }
+  // เก็บจากกองกลางต้องใช้ทันที: index = ใบที่เก็บ (0 = หัว),
+  // cardIds = ไพ่ในมือที่ใช้เกิดคู่กับใบนั้น หรือ meldId = เก็บไปฝากกองบนโต๊ะ
+  | {
+      type: "pickUp";
+      uid: string;
+      index: number;
+      cardIds: string[];
+      meldId?: string;
+      at: number;
+    }
+  | { type: "discard"; uid: string; cardId: string; at: number }
+  | { type: "layMeld"; uid: string; cardIds: string[]; at: number }
+  | { type: "layOff"; uid: string; cardId: string; meldId: string; at: number };
+
+export type ActionResult = { state: GameState } | { error: string };
+
+/** action ที่ผู้เล่นส่งเอง (ไม่รวม deal ที่ server ทำให้) */
+export type PlayerAction = Exclude<Action, { type: "deal" }>;
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/** ท่าที่ client ส่งมา — uid/at ฝั่งที่รัน engine เป็นคนเติม (ไม่เชื่อ client) */
+export type Move = DistributiveOmit<PlayerAction, "uid" | "at">;
@@ -0,0 +1,126 @@
+// lib/engine/visibility.ts
+import type { CardT, GamePlayer, GameState } from "./types";
+import { normalizeGame } from "./reducer";
+import { type ScoreBreakdown, scoreBreakdown } from "./scoring";
+
+/** ข้อมูลผู้เล่นที่ทุกคนเห็นได้: ไม่มีไพ่ในมือ มีแค่จำนวน */
+export type PublicPlayer = Omit<GamePlayer, "hand"> & {
+  handCount: number;
+  breakdown: ScoreBreakdown;
+};
+
+/**
+ * state ที่เขียนลง rooms/{roomId}/game ให้ทุก client อ่าน
+ * ไม่มีไพ่ในมือ ลำดับกองจั่ว หรือ cardOrigins (id ไพ่บอกได้ว่าใครถืออะไร)
+ */
+export type PublicGameState = Omit<
+  GameState,
+  "stock" | "cardOrigins" | "players"
+> & {
+  stockCount: number;
+  players: Record<string, PublicPlayer>;
+};
+
+/** field ของ GameState ที่เปิดเผยได้ตรง ๆ (ไม่รวม stock/cardOrigins/players) */
+function publicFields(state: GameState) {
+  return {
+    phase: state.phase,
+    startedAt: state.startedAt,
+    turnUid: state.turnUid,
+    step: state.step,
+    rules: state.rules,
+    // seed บอกได้ทั้งสำรับ — เปิดเผยเมื่อตาจบแล้วเท่านั้น
+    seed: state.endedAt != null ? state.seed : null,
+    turnStartedAt: state.turnStartedAt,
+    headCardId: state.headCardId,
+    discard: state.discard,
+    tableMelds: state.tableMelds,
+    seatUids: state.seatUids,
+    winnerUid: state.winnerUid,
+    endedAt: state.endedAt,
+    endReason: state.endReason,
+  };
+}
+
+function publicPlayer(
+  p: GamePlayer,
+  handCount: number,
+  breakdown: ScoreBreakdown
+): PublicPlayer {
+  return {
+    name: p.name,
+    hasMelded: p.hasMelded,
+    score: p.score,
+    scoredCards: p.scoredCards,
+    penalties: p.penalties,
+    lastTurnTookDiscardFromUid: p.lastTurnTookDiscardFromUid ?? null,
+    handCount,
+    breakdown,
+  };
+}
+
+export function toPublicGame(state: GameState): PublicGameState {
+  const players: Record<string, PublicPlayer> = {};
+  for (const [uid, p] of Object.entries(state.players))
+    players[uid] = publicPlayer(p, p.hand.length, scoreBreakdown(state, uid));
+  return {
+    ...publicFields(state),
+    stockCount: state.stock.length,
+    players,
+  };
+}
+
+/** ค่าดิบจาก rooms/{roomId}/game → PublicGameState (เติม array ที่ RTDB ลบทิ้ง) */
+export function normalizePublicGame(raw: unknown): PublicGameState | null {
+  const base = normalizeGame(raw);
+  if (!base) return null;
+  const game = raw as Partial<PublicGameState>;
+
+  const players: Record<string, PublicPlayer> = {};
+  for (const [uid, p] of Object.entries(base.players)) {
+    const info = game.players?.[uid];
+    players[uid] = publicPlayer(
+      p,
+      info?.handCount ?? 0,
+      info?.breakdown ?? scoreBreakdown(base, uid)
+    );
+  }
+  return {
+    ...publicFields(base),
+    stockCount: game.stockCount ?? 0,
+    players,
+  };
+}
+
+/**
+ * แยกไพ่ในมือออกจาก state (เก็บคนละ path: roomsPrivate/{roomId}/hands/{uid})
+ * fromDiscard = id ไพ่ในมือที่ได้มาจากกองกลาง (roomsPrivate/{roomId}/fromDiscard/{uid})
+ * เจ้าของมือรู้อยู่แล้ว — หน้าเว็บใช้แนะนำการเกิดเฉพาะท่าที่ engine รับ
+ */
+export function splitHands(state: GameState): {
+  game: GameState;
+  hands: Record<string, CardT[]>;
+  fromDiscard: Record<string, string[]>;
+} {
+  const hands: Record<string, CardT[]> = {};
+  const fromDiscard: Record<string, string[]> = {};
+  const players: Record<string, GamePlayer> = {};
+  for (const [uid, p] of Object.entries(state.players)) {
+    hands[uid] = p.hand;
+    fromDiscard[uid] = p.hand
+      .filter((c) => state.cardOrigins[c.id]?.kind === "discard")
+      .map((c) => c.id);
+    players[uid] = { ...p, hand: [] };
+  }
+  return { game: { ...state, players }, hands, fromDiscard };
+}
+
+export function mergeHands(
+  game: GameState,
+  hands: Record<string, CardT[] | undefined>
+): GameState {
+  const players: Record<string, GamePlayer> = {};
+  for (const [uid, p] of Object.entries(game.players))
+    players[uid] = { ...p, hand: hands[uid] ?? [] };
+  return { ...game, players };
+}
@@ -13,9 +13,13 @@ const firebaseConfig = {
 
 const isBrowser = typeof window !== "undefined";
 
-export const app = isBrowser
-  ? getApps()[0] ?? initializeApp(firebaseConfig)
-  : null;
+// NEXT_PUBLIC_ROOM_STORE=local: เล่น offline ข้าม tab ไม่ต้องมี Firebase project
+export const isLocalStore = process.env.NEXT_PUBLIC_ROOM_STORE === "local";
+
+export const app =
+  isBrowser && !isLocalStore
+    ? getApps()[0] ?? initializeApp(firebaseConfig)
+    : null;
 
 export const auth = app ? getAuth(app) : (null as any);
 export const db = app ? getDatabase(app) : (null as any);
@@ -0,0 +1,30 @@
+// lib/firebaseAdmin.ts (server only — route handlers)
+import {
+  initializeApp,
+  getApps,
+  cert,
+  applicationDefault,
+} from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getDatabase } from "firebase-admin/database";
+
+// FIREBASE_SERVICE_ACCOUNT = JSON ของ service account (ทั้งก้อน)
+// ถ้าไม่ตั้ง ใช้ GOOGLE_APPLICATION_CREDENTIALS / default credentials แทน
+function credential() {
+  const json = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return json ? cert(JSON.parse(json)) : applicationDefault();
+}
+
+// init แบบ lazy: ตอน next build จะ import route แต่ยังไม่มี env ของ server
+function adminApp() {
+  return (
+    getApps()[0] ??
+    initializeApp({
+      credential: credential(),
+      databaseURL: process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL,
+    })
+  );
+}
+
+export const adminAuth = () => getAuth(adminApp());
+export const adminDb = () => getDatabase(adminApp());
@@ -0,0 +1,35 @@
+// lib/profile.ts
+// โปรไฟล์ต่อ uid เก็บที่ profiles/{uid} — ใช้แทนการส่งชื่อผ่าน ?name= ใน URL
+
+export type Profile = { name: string; color: string };
+
+export const AVATAR_COLORS = [
+  "#ef4444",
+  "#f59e0b",
+  "#10b981",
+  "#0ea5e9",
+  "#8b5cf6",
+  "#ec4899",
+];
+
+export const MAX_NAME_LENGTH = 40;
+
+/** สีเริ่มต้นตาม uid (คนเดิมได้สีเดิมทุกครั้ง) */
+function colorFor(uid: string) {
+  let h = 0;
+  for (const ch of uid) h = (h * 31 + ch.charCodeAt(0)) >>> 0;
+  return AVATAR_COLORS[h % AVATAR_COLORS.length];
+}
+
+/** ค่าดิบจาก profiles/{uid} → Profile ที่ครบ (ยังไม่เคยตั้ง = ค่าเริ่มต้น) */
+export function normalizeProfile(raw: unknown, uid: string | null): Profile {
+  const p = (raw ?? {}) as Partial<Profile>;
+  const name = typeof p.name === "string" ? p.name.trim() : "";
+  return {
+    name: name.slice(0, MAX_NAME_LENGTH) || "Player",
+    color:
+      typeof p.color === "string" && /^#[0-9a-f]{6}$/i.test(p.color)
+        ? p.color
+        : colorFor(uid ?? ""),
+  };
+}
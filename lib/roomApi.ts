@@ -0,0 +1,71 @@
+// lib/roomApi.ts
+import { auth } from "@/lib/firebase";
+import type { Move } from "@/lib/engine";
+import { runRoomCommand } from "@/lib/roomService";
+import { isLocalStore, localUid, roomStore } from "@/lib/store";
+
+export type SlotNo = 1 | 2 | 3 | 4;
+
+/**
+ * คำสั่งที่ส่งให้ server รัน — client เขียน game/match/status เองไม่ได้
+ * (ดู database.rules.json) ทุกอย่างที่แตะ state ของเกมต้องผ่านตรงนี้
+ */
+export type RoomCommand =
+  | { type: "start" }
+  | { type: "nextRound" }
+  | { type: "backToLobby" }
+  | { type: "timeout" } // ตาปัจจุบันหมดเวลา ให้ server เล่นแทน
+  | { type: "undo" } // ย้อนท่าล่าสุดของตัวเองในตานี้ (ดู undoWindow)
+  // คนหลุดเกิน RECONNECT_GRACE_MS: host ให้บอทเล่นแทน หรือสั่งจบตานี้
+  | { type: "replaceWithBot"; targetUid: string }
+  | { type: "endHand" }
+  | { type: "reclaimSeat" } // กลับมาแล้ว เอาที่นั่งคืนจากบอท
+  // host จัดการล็อบบี้ (server เช็ค hostUid เอง)
+  | { type: "kick"; slot: SlotNo }
+  | { type: "setLocked"; locked: boolean }
+  | { type: "transferHost"; targetUid: string }
+  | { type: "moveSeat"; from: SlotNo; to: SlotNo }
+  | Move;
+
+/**
+ * ส่งคำสั่งไป /api/rooms/{roomId}/actions พร้อม ID token ของคนที่ login อยู่
+ * โหมด local ไม่มี server: รัน roomService กับ store ใน browser เลย
+ */
+export async function sendRoomCommand(
+  roomId: string,
+  command: RoomCommand
+): Promise<{ error: string | null }> {
+  if (isLocalStore)
+    return {
+      error: await runRoomCommand(roomStore, roomId, localUid(), command),
+    };
+
+  const user = auth?.currentUser;
+  if (!user) return { error: "ยังไม่ได้ login" };
+
+  // ออฟไลน์/เน็ตหลุด: getIdToken หรือ fetch throw — คืนเป็น error ให้หน้าเว็บแสดง
+  let res: Response;
+  try {
+    const token = await user.getIdToken();
+    res = await fetch(`/api/rooms/${roomId}/actions`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(command),
+    });
+  } catch (e) {
+    return {
+      error: `ส่งคำสั่งไม่สำเร็จ: ${
+        e instanceof Error ? e.message : "เชื่อมต่อ server ไม่ได้"
+      }`,
+    };
+  }
+  if (res.ok) return { error: null };
+
+  const data = (await res.json().catch(() => null)) as {
+    error?: string;
+  } | null;
+  return { error: data?.error ?? `ส่งคำสั่งไม่สำเร็จ (${res.status})` };
+}
@@ -0,0 +1,617 @@
+// lib/roomService.ts
+// รันคำสั่งของห้องกับ CommandStore: server ใช้ Admin SDK, โหมด local รันใน browser
+import {
+  type BotLevel,
+  type CardT,
+  type GameState,
+  type HandLog,
+  type HouseRules,
+  type LoggedAction,
+  type Match,
+  type PublicMove,
+  appendLog,
+  applyLogged,
+  chooseBotMove,
+  createHandLog,
+  createMatch,
+  firstUidOfRound,
+  isBotLevel,
+  mergeHands,
+  newRoundState,
+  normalizeGame,
+  normalizeHandLog,
+  normalizeMatch,
+  normalizeRules,
+  publicMoves,
+  recordRound,
+  randomSeed,
+  splitHands,
+  toAction,
+  toPublicGame,
+  undoLast,
+  undoWindow,
+} from "@/lib/engine";
+import type { RoomCommand, SlotNo } from "@/lib/roomApi";
+import type { CommandStore } from "@/lib/store/types";
+
+type Slot = null | {
+  uid: string;
+  name: string;
+  ready: boolean;
+  bot?: BotLevel;
+};
+
+// ค่าดิบของ rooms/{roomId} (slots อาจกลายเป็น array เมื่อ key เป็นเลขเรียงกัน)
+type PublicRoom = {
+  rev?: number;
+  status?: "lobby" | "playing";
+  hostUid?: string;
+  locked?: boolean;
+  kicked?: Record<string, true>; // uid ที่ host เตะออก — นั่งห้องนี้ไม่ได้อีก
+  handNo?: number | null; // ตาล่าสุด (ดู replays/{roomId}/{handNo})
+  undo?: ReturnType<typeof undoWindow>; // ใครย้อนท่าล่าสุดได้ถึงเมื่อไหร่
+  moves?: PublicMove[]; // ท่าล่าสุดของตานี้ (ไว้ประกาศ)
+  slots?: Record<string, Slot> | Slot[];
+  rules?: Partial<HouseRules>;
+  game?: unknown;
+  match?: Match | null;
+  presence?: Record<string, Presence>;
+  [key: string]: unknown;
+};
+
+/** rooms/{roomId}/presence/{uid} (ดู RoomStore.presence) */
+export type Presence = { name?: string; online: boolean; at: number };
+
+/** หลุดนานเกินนี้ host ถึงจะแทนที่ด้วยบอทหรือสั่งจบตาได้ */
+export const RECONNECT_GRACE_MS = 60_000;
+
+/** ผู้ชม: เปิดห้องอยู่ (online) แต่ไม่ได้นั่งในที่นั่งไหน */
+export function countSpectators(
+  presence: Record<string, Presence> | null | undefined,
+  seatUids: Iterable<string>
+) {
+  const seated = new Set(seatUids);
+  return Object.entries(presence ?? {}).filter(
+    ([uid, p]) => p?.online && !seated.has(uid)
+  ).length;
+}
+
+/** หลุดเกินช่วงผ่อนผันแล้วหรือยัง (ไม่มี presence เลย = ถือว่าหลุด) */
+export function isAway(presence: Presence | null | undefined, now: number) {
+  if (!presence) return true;
+  return !presence.online && now - presence.at >= RECONNECT_GRACE_MS;
+}
+
+/**
+ * state ที่ server เป็นเจ้าของ เก็บที่ roomsPrivate/{roomId}
+ * (game เต็มรวมกองจั่ว/cardOrigins ส่วนไพ่ในมือแยกไว้ที่ hands/{uid})
+ * log = action ของตาปัจจุบัน (มี seed ของสำรับ จึงเปิดเผยได้หลังตาจบเท่านั้น)
+ */
+type ServerRoom = {
+  rev: number;
+  status: "lobby" | "playing";
+  match: Match | null;
+  game: GameState | null;
+  log: HandLog | null;
+};
+
+type PrivateRoomData = {
+  rev?: number;
+  status?: "lobby" | "playing";
+  match?: Match | null;
+  game?: unknown;
+  hands?: Record<string, CardT[]>;
+  fromDiscard?: Record<string, string[]>;
+  log?: unknown;
+};
+
+function loadServerRoom(
+  raw: PrivateRoomData | null,
+  pub: PublicRoom
+): ServerRoom {
+  // ห้องใหม่ยังไม่มี private state: เริ่มจากค่าใน lobby
+  if (!raw)
+    return {
+      rev: pub.rev ?? 0,
+      status: pub.status ?? "lobby",
+      match: null,
+      game: null,
+      log: null,
+    };
+
+  const game = normalizeGame(raw.game);
+  return {
+    rev: raw.rev ?? 0,
+    status: raw.status ?? "lobby",
+    match: normalizeMatch(raw.match),
+    game: game ? mergeHands(game, raw.hands ?? {}) : null,
+    log: normalizeHandLog(raw.log),
+  };
+}
+
+function saveServerRoom(room: ServerRoom): PrivateRoomData {
+  const { rev, status, match, log } = room;
+  if (!room.game) return { rev, status, match, log };
+
+  const { game, hands, fromDiscard } = splitHands(room.game);
+  return { rev, status, match, game, hands, fromDiscard, log };
+}
+
+/** uid ที่นั่งอยู่ เรียงตาม slot 1–4 */
+function seatedSlots(room: PublicRoom) {
+  const raw = (room.slots ?? {}) as Record<string, Slot>;
+  return (["1", "2", "3", "4"] as const)
+    .map((k) => raw[k] ?? null)
+    .filter(
+      (p): p is NonNullable<Slot> =>
+        !!p && typeof p.uid === "string" && typeof p.ready === "boolean"
+    );
+}
+
+/** ทำ action กับ game ของห้อง แล้วต่อท้าย log ของตานี้ */
+function step(room: ServerRoom, action: LoggedAction): ServerRoom | string {
+  if (!room.game) return "ยังไม่เริ่มเกม";
+  const res = applyLogged(room.game, action);
+  if ("error" in res) return res.error;
+  const log = room.log && appendLog(room.log, action, res.state);
+  return { ...room, game: res.state, log };
+}
+
+/** เริ่มตาใหม่: game เปล่า + log ใหม่ แล้วแจกไพ่ทันทีบน server */
+function dealRound(
+  room: ServerRoom,
+  pub: PublicRoom,
+  firstUid: string | null,
+  at: number,
+  random: () => number
+): ServerRoom | string {
+  const seated = seatedSlots(pub);
+  const hand = (room.log?.hand ?? 0) + 1;
+  return step(
+    {
+      ...room,
+      game: newRoundState(firstUid, at),
+      log: createHandLog(hand, firstUid, at),
+    },
+    {
+      type: "deal",
+      uids: seated.map((p) => p.uid),
+      names: Object.fromEntries(seated.map((p) => [p.uid, p.name])),
+      seed: randomSeed(random),
+      rules: normalizeRules(pub.rules),
+      at,
+    }
+  );
+}
+
+/** uid ของบอทที่ host ใส่ในล็อบบี้ (คนที่ถูกบอทเล่นแทนยังเป็น uid จริง) */
+export const BOT_UID_PREFIX = "bot-";
+
+/** uid ของบอทที่นั่งอยู่ → ระดับ */
+function seatedBots(pub: PublicRoom) {
+  const bots: Record<string, BotLevel> = {};
+  for (const p of seatedSlots(pub)) if (isBotLevel(p.bot)) bots[p.uid] = p.bot;
+  return bots;
+}
+
+/** ใส่/ถอดบอทออกจากที่นั่ง (null = คนกลับมานั่งเอง) */
+function withBotSeats(
+  bots: Record<string, BotLevel>,
+  changes: Record<string, BotLevel | null> = {}
+) {
+  const out = { ...bots };
+  for (const [botUid, level] of Object.entries(changes)) {
+    if (level) out[botUid] = level;
+    else delete out[botUid];
+  }
+  return out;
+}
+
+// กันวนไม่จบถ้ามีบั๊กในบอท (ตาหนึ่งของบอทใช้ไม่กี่ท่า)
+const MAX_BOT_MOVES = 500;
+
+/** ให้บอทเล่นต่อกันไปจนถึงตาคน (หรือรอบจบ) — ผ่าน applyAction เหมือนคน */
+function playBots(
+  room: ServerRoom,
+  bots: Record<string, BotLevel>,
+  at: number,
+  random: () => number
+): ServerRoom {
+  let r = room;
+  for (let i = 0; i < MAX_BOT_MOVES; i++) {
+    const g = r.game;
+    const botUid = g?.turnUid;
+    if (!g || g.phase !== "playing" || !botUid || !bots[botUid]) break;
+
+    const move = chooseBotMove(g, botUid, bots[botUid], random);
+    if (!move) break;
+    const next = step(r, toAction(move, botUid, at));
+    if (typeof next === "string") break;
+    r = next;
+  }
+  return r;
+}
+
+type CommandOutcome = {
+  room: ServerRoom;
+  resetReady?: boolean;
+  botSeats?: Record<string, BotLevel | null>; // uid → บอทที่เล่นแทน
+};
+
+/** รันคำสั่งกับ state ปัจจุบัน คืน state ใหม่ หรือข้อความ error */
+function applyRoomCommand(
+  room: ServerRoom,
+  pub: PublicRoom,
+  uid: string,
+  cmd: Exclude<RoomCommand, LobbyCommand>,
+  at: number,
+  random: () => number
+): CommandOutcome | string {
+  switch (cmd.type) {
+    case "start": {
+      const players = seatedSlots(pub);
+      if (pub.hostUid !== uid) return "Start ได้เฉพาะเจ้าของห้องเท่านั้น";
+
+      if (
+        room.status !== "lobby" ||
+        (room.game && room.game.phase !== "results") ||
+        players.length < 2 ||
+        players.length > 4 ||
+        !players.every((p) => p.ready)
+      )
+        return "Start ไม่ได้: ต้องมี 2–4 คน และทุกคน Ready ครบ";
+      if (new Set(players.map((p) => p.uid)).size !== players.length)
+        return "Start ไม่ได้: มีผู้เล่นนั่งซ้ำหลายที่";
+
+      const match = createMatch(
+        players.map((p) => p.uid),
+        normalizeRules(pub.rules).targetScore
+      );
+      const next = dealRound(
+        { ...room, status: "playing", match },
+        pub,
+        players[0].uid,
+        at,
+        random
+      );
+      if (typeof next === "string") return next;
+      return { room: next };
+    }
+
+    case "nextRound": {
+      const game = room.game;
+      if (!game?.players[uid]) return "คุณไม่ได้อยู่ในเกมนี้";
+      if (game.phase !== "results") return "รอบนี้ยังไม่จบ";
+
+      const m =
+        room.match ?? createMatch(game.seatUids, game.rules.targetScore);
+      if (m.finishedAt) return "แมตช์จบแล้ว";
+
+      const match = recordRound(m, game, at);
+      if (match.finishedAt) return { room: { ...room, match } };
+
+      const next = dealRound(
+        { ...room, match },
+        pub,
+        firstUidOfRound(match),
+        at,
+        random
+      );
+      if (typeof next === "string") return next;
+      return { room: next };
+    }
+
+    case "backToLobby": {
+      const match = room.match;
+      if (!match?.seatUids.includes(uid)) return "คุณไม่ได้อยู่ในเกมนี้";
+      if (!match.finishedAt) return "แมตช์ยังไม่จบ";
+
+      // กลับล็อบบี้ ทุกคนต้องกด Ready ใหม่ — ที่นั่งที่บอทเล่นแทนคืนให้เจ้าของ
+      const botSeats: Record<string, null> = {};
+      for (const botUid of Object.keys(seatedBots(pub)))
+        if (!botUid.startsWith(BOT_UID_PREFIX)) botSeats[botUid] = null;
+      return {
+        room: { ...room, status: "lobby", match: null, game: null },
+        resetReady: true,
+        botSeats,
+      };
+    }
+
+    case "timeout": {
+      // ใครในเกมก็แจ้งได้ server เช็คเวลาเองอีกที
+      if (!room.game?.players[uid]) return "คุณไม่ได้อยู่ในเกมนี้";
+      const next = step(room, { type: "timeout", at });
+      return typeof next === "string" ? next : { room: next };
+    }
+
+    case "undo": {
+      if (!room.game?.players[uid]) return "คุณไม่ได้อยู่ในเกมนี้";
+      if (!room.log) return "ย้อนท่านี้ไม่ได้";
+      const res = undoLast(room.log, uid, at);
+      if ("error" in res) return res.error;
+      return { room: { ...room, game: res.state, log: res.log } };
+    }
+
+    case "replaceWithBot": {
+      if (pub.hostUid !== uid) return "เฉพาะเจ้าของห้องเท่านั้น";
+      const target = cmd.targetUid;
+      if (room.game?.phase !== "playing") return "ไม่ได้อยู่ระหว่างเล่น";
+      if (!room.game.players[target]) return "ผู้เล่นนี้ไม่ได้อยู่ในเกม";
+      if (seatedBots(pub)[target]) return "ที่นั่งนี้มีบอทเล่นแทนอยู่แล้ว";
+      if (!isAway(pub.presence?.[target], at)) return "ผู้เล่นยังหลุดไม่นานพอ";
+      return { room, botSeats: { [target]: "smart" } };
+    }
+
+    case "endHand": {
+      if (pub.hostUid !== uid) return "เฉพาะเจ้าของห้องเท่านั้น";
+      if (!room.game) return "ยังไม่เริ่มเกม";
+      const bots = seatedBots(pub);
+      const someoneAway = Object.keys(room.game.players).some(
+        (p) => !bots[p] && isAway(pub.presence?.[p], at)
+      );
+      if (!someoneAway) return "ยังไม่มีผู้เล่นที่หลุดนานพอ";
+      const next = step(room, { type: "abandon", uid, at });
+      return typeof next === "string" ? next : { room: next };
+    }
+
+    case "reclaimSeat": {
+      if (!seatedBots(pub)[uid]) return "ที่นั่งของคุณไม่ได้มีบอทเล่นแทน";
+      return { room, botSeats: { [uid]: null } };
+    }
+
+    default: {
+      const next = step(room, toAction(cmd, uid, at));
+      return typeof next === "string" ? next : { room: next };
+    }
+  }
+}
+
+/**
+ * เขียนส่วนที่เปิดเผยได้ลง rooms/{roomId} (ไม่มีไพ่ในมือ/กองจั่ว)
+ * เช็ค rev กันผลเก่าเขียนทับผลใหม่เมื่อมีหลายคำสั่งเข้ามาพร้อมกัน
+ */
+async function publish(
+  store: CommandStore,
+  roomId: string,
+  outcome: CommandOutcome
+) {
+  const { room, resetReady, botSeats = {} } = outcome;
+  await store.transact<PublicRoom>(`rooms/${roomId}`, (cur) => {
+    if (cur === null) return cur;
+    if ((cur.rev ?? 0) >= room.rev) return; // มีผลที่ใหม่กว่าแล้ว
+
+    cur.rev = room.rev;
+    cur.status = room.status;
+    cur.handNo = room.log?.hand ?? null;
+    cur.undo = undoWindow(room.log);
+    cur.moves = publicMoves(room.log);
+    cur.match = room.match;
+    cur.game = room.game
+      ? toPublicGame(room.game)
+      : { phase: "lobby", startedAt: null };
+
+    const slots = (cur.slots ?? {}) as Record<string, Slot>;
+    for (const k of ["1", "2", "3", "4"]) {
+      const slot = slots[k];
+      if (!slot) continue;
+      if (slot.uid in botSeats) {
+        const level = botSeats[slot.uid];
+        if (level) slot.bot = level;
+        else delete slot.bot;
+      }
+      // บอท Ready ตลอด (client แก้ ready ของบอทไม่ได้)
+      if (resetReady && !slot.bot) slot.ready = false;
+    }
+    return cur;
+  });
+
+  // ตาจบแล้ว: เปิด log ให้ทุกคนดู replay ได้ (เขียนครั้งเดียว ไม่ทับของเดิม)
+  const { log } = room;
+  if (log?.endedAt != null)
+    await store.transact<HandLog>(`replays/${roomId}/${log.hand}`, (cur) =>
+      cur === null ? log : undefined
+    );
+}
+
+type LobbyCommand = Extract<
+  RoomCommand,
+  { type: "kick" | "setLocked" | "transferHost" | "moveSeat" }
+>;
+
+function isLobbyCommand(cmd: RoomCommand): cmd is LobbyCommand {
+  return (
+    cmd.type === "kick" ||
+    cmd.type === "setLocked" ||
+    cmd.type === "transferHost" ||
+    cmd.type === "moveSeat"
+  );
+}
+
+/** คำสั่งของ host ที่แก้แค่ rooms/{roomId} (ที่นั่ง/ล็อก/host) ไม่แตะ state ของเกม */
+function applyLobbyCommand(
+  pub: PublicRoom,
+  uid: string,
+  cmd: LobbyCommand
+): PublicRoom | string {
+  if (pub.hostUid !== uid) return "เฉพาะเจ้าของห้องเท่านั้น";
+
+  const raw = (pub.slots ?? {}) as Record<string, Slot>;
+  const slots: Record<string, Slot> = {};
+  for (const k of ["1", "2", "3", "4"]) slots[k] = raw[k] ?? null;
+
+  switch (cmd.type) {
+    case "setLocked":
+      return { ...pub, locked: cmd.locked };
+
+    case "transferHost": {
+      const target = seatedSlots(pub).find((p) => p.uid === cmd.targetUid);
+      if (!target || target.bot)
+        return "ส่งต่อ host ได้เฉพาะผู้เล่นที่นั่งอยู่";
+      return { ...pub, hostUid: target.uid };
+    }
+
+    case "kick": {
+      if (pub.status === "playing") return "เกมเริ่มไปแล้ว";
+      const slot = slots[cmd.slot];
+      if (!slot) return "ที่นั่งนี้ว่างอยู่";
+      if (slot.uid === uid) return "เตะตัวเองไม่ได้";
+      // จำ uid ไว้ให้ rules กันไม่ให้กลับมานั่งเอง (บอทไม่ต้องจำ)
+      const kicked = slot.bot
+        ? pub.kicked
+        : { ...(pub.kicked ?? {}), [slot.uid]: true as const };
+      return { ...pub, kicked, slots: { ...slots, [cmd.slot]: null } };
+    }
+
+    case "moveSeat": {
+      if (pub.status === "playing") return "เกมเริ่มไปแล้ว";
+      if (cmd.from === cmd.to) return "ที่นั่งเดิม";
+      if (!slots[cmd.from]) return "ที่นั่งนี้ว่างอยู่";
+      // ที่นั่งปลายทางมีคน = สลับกัน
+      return {
+        ...pub,
+        slots: {
+          ...slots,
+          [cmd.from]: slots[cmd.to],
+          [cmd.to]: slots[cmd.from],
+        },
+      };
+    }
+  }
+}
+
+async function runLobbyCommand(
+  store: CommandStore,
+  roomId: string,
+  uid: string,
+  cmd: LobbyCommand
+): Promise<string | null> {
+  let error: string | null = null;
+  const result = await store.transact<PublicRoom>(`rooms/${roomId}`, (cur) => {
+    if (cur === null) return cur;
+    const next = applyLobbyCommand(cur, uid, cmd);
+    if (typeof next === "string") {
+      error = next;
+      return;
+    }
+    error = null;
+    return next;
+  });
+
+  if (error) return error;
+  if (!result.committed || !result.value) return "ไม่พบห้อง";
+  return null;
+}
+
+/**
+ * รันคำสั่งใน transaction ของ roomsPrivate/{roomId} — คืนข้อความ error หรือ null ถ้าสำเร็จ
+ * random ใช้ทั้งสุ่ม seed ตอนแจกและให้บอทเลือกท่า (เทสส่ง seededRandom เพื่อให้เล่นซ้ำได้)
+ */
+export async function runRoomCommand(
+  store: CommandStore,
+  roomId: string,
+  uid: string,
+  cmd: RoomCommand,
+  random: () => number = Math.random
+): Promise<string | null> {
+  if (isLobbyCommand(cmd)) return runLobbyCommand(store, roomId, uid, cmd);
+
+  const pub = (await store.get(`rooms/${roomId}`)) as PublicRoom | null;
+  if (!pub) return "ไม่พบห้อง";
+
+  let error: string | null = null;
+  let outcome: CommandOutcome | null = null;
+  const result = await store.transact<PrivateRoomData>(
+    `roomsPrivate/${roomId}`,
+    (cur) => {
+      const at = Date.now();
+      const room = loadServerRoom(cur, pub);
+      const next = applyRoomCommand(room, pub, uid, cmd, at, random);
+      if (typeof next === "string") {
+        error = next;
+        outcome = null;
+        // cur เป็น null ได้เพราะยังไม่มี cache — คืน null ให้ SDK เช็คกับค่าจริงก่อน
+        return cur === null ? null : undefined;
+      }
+      error = null;
+      // ถ้าตาถัดไปเป็นบอท เล่นให้จบใน transaction เดียวกัน
+      const bots = withBotSeats(seatedBots(pub), next.botSeats);
+      const played = playBots(next.room, bots, at, random);
+      outcome = { ...next, room: { ...played, rev: room.rev + 1 } };
+      return saveServerRoom(outcome.room);
+    }
+  );
+
+  if (error) return error;
+  if (!result.committed || !outcome) return "ส่งคำสั่งไม่สำเร็จ";
+
+  await publish(store, roomId, outcome);
+  return null;
+}
+
+/** ตรวจรูปแบบ body ที่ client ส่งมา สร้าง command ใหม่เฉพาะ field ที่รู้จัก */
+export function parseCommand(body: unknown): RoomCommand | null {
+  if (!body || typeof body !== "object") return null;
+  const b = body as Record<string, unknown>;
+  const str = (v: unknown) => (typeof v === "string" ? v : null);
+  const ids = (v: unknown) =>
+    Array.isArray(v) && v.every((x) => typeof x === "string")
+      ? (v as string[])
+      : null;
+  const slotNo = (v: unknown) =>
+    v === 1 || v === 2 || v === 3 || v === 4 ? (v as SlotNo) : null;
+
+  switch (b.type) {
+    case "start":
+    case "nextRound":
+    case "backToLobby":
+    case "timeout":
+    case "undo":
+    case "endHand":
+    case "reclaimSeat":
+    case "drawStock":
+      return { type: b.type };
+    case "replaceWithBot":
+    case "transferHost": {
+      const targetUid = str(b.targetUid);
+      return targetUid ? { type: b.type, targetUid } : null;
+    }
+    case "setLocked":
+      return typeof b.locked === "boolean"
+        ? { type: "setLocked", locked: b.locked }
+        : null;
+    case "kick": {
+      const slot = slotNo(b.slot);
+      return slot ? { type: "kick", slot } : null;
+    }
+    case "moveSeat": {
+      const from = slotNo(b.from);
+      const to = slotNo(b.to);
+      return from && to ? { type: "moveSeat", from, to } : null;
+    }
+    case "discard": {
+      const cardId = str(b.cardId);
+      return cardId ? { type: "discard", cardId } : null;
+    }
+    case "layMeld": {
+      const cardIds = ids(b.cardIds);
+      return cardIds ? { type: "layMeld", cardIds } : null;
+    }
+    case "layOff": {
+      const cardId = str(b.cardId);
+      const meldId = str(b.meldId);
+      return cardId && meldId ? { type: "layOff", cardId, meldId } : null;
+    }
+    case "pickUp": {
+      const cardIds = ids(b.cardIds);
+      const meldId = str(b.meldId);
+      if (typeof b.index !== "number" || !cardIds) return null;
+      return {
+        type: "pickUp",
+        index: b.index,
+        cardIds,
+        ...(meldId ? { meldId } : {}),
+      };
+    }
+  }
+  return null;
+}
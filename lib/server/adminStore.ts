@@ -0,0 +1,18 @@
+// lib/server/adminStore.ts (server only)
+import { adminDb } from "@/lib/firebaseAdmin";
+import type { CommandStore } from "@/lib/store/types";
+
+/** CommandStore บน Admin SDK ให้ route handler รันคำสั่งข้าม security rules */
+export function adminStore(): CommandStore {
+  const db = adminDb();
+  return {
+    async get(path) {
+      return (await db.ref(path).get()).val();
+    },
+
+    async transact(path, fn) {
+      const res = await db.ref(path).transaction(fn);
+      return { committed: res.committed, value: res.snapshot.val() };
+    },
+  };
+}
@@ -0,0 +1,51 @@
+// lib/store/firebaseStore.ts
+import {
+  type Database,
+  get,
+  onDisconnect,
+  onValue,
+  ref,
+  runTransaction,
+  serverTimestamp,
+  set,
+  update,
+} from "firebase/database";
+import type { RoomStore } from "./types";
+
+export function createFirebaseStore(db: Database): RoomStore {
+  return {
+    subscribe(path, cb) {
+      return onValue(ref(db, path), (snap) => cb(snap.val()));
+    },
+
+    async get(path) {
+      return (await get(ref(db, path))).val();
+    },
+
+    async transact(path, fn) {
+      const res = await runTransaction(ref(db, path), fn);
+      return { committed: res.committed, value: res.snapshot.val() };
+    },
+
+    set(path, value) {
+      return set(ref(db, path), value);
+    },
+
+    update(path, values) {
+      return update(ref(db, path), values);
+    },
+
+    presence(path, value) {
+      const target = ref(db, path);
+      return onValue(ref(db, ".info/connected"), async (snap) => {
+        if (snap.val() !== true) return;
+        await onDisconnect(target).set({
+          ...value,
+          online: false,
+          at: serverTimestamp(),
+        });
+        await set(target, { ...value, online: true, at: serverTimestamp() });
+      });
+    },
+  };
+}
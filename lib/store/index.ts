@@ -0,0 +1,15 @@
+// lib/store/index.ts
+import { db, isLocalStore } from "@/lib/firebase";
+import { createFirebaseStore } from "./firebaseStore";
+import { createLocalStore } from "./localStore";
+import type { RoomStore } from "./types";
+
+export type { CommandStore, RoomStore, TransactionResult } from "./types";
+export { createFirebaseStore } from "./firebaseStore";
+export { createLocalStore, localUid } from "./localStore";
+export { isLocalStore };
+
+/** store ที่หน้าเว็บใช้ เลือกจาก NEXT_PUBLIC_ROOM_STORE (ค่าเริ่มต้น firebase) */
+export const roomStore: RoomStore = isLocalStore
+  ? createLocalStore()
+  : createFirebaseStore(db);
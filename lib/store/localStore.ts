@@ -0,0 +1,146 @@
+// lib/store/localStore.ts
+import type { RoomStore } from "./types";
+
+// ทั้ง tree เก็บใน localStorage (tab ใหม่เห็นข้อมูลเดิม)
+// แล้วแจ้ง tab อื่นผ่าน BroadcastChannel ว่ามีการเปลี่ยนแปลง
+const STORAGE_KEY = "dummy-local-db";
+const CHANNEL_NAME = "dummy-local-db";
+const UID_KEY = "dummy-local-uid";
+
+type Tree = Record<string, unknown>;
+
+function segments(path: string) {
+  return path.split("/").filter(Boolean);
+}
+
+/** ลบ null/undefined และ object ว่างทิ้งแบบเดียวกับ RTDB */
+function clean(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) return value.map(clean);
+  if (typeof value !== "object") return value;
+
+  const out: Tree = {};
+  for (const [k, v] of Object.entries(value)) {
+    const c = clean(v);
+    if (c !== null) out[k] = c;
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+function readAt(root: Tree, path: string): unknown {
+  let node: unknown = root;
+  for (const key of segments(path)) {
+    if (!node || typeof node !== "object") return null;
+    node = (node as Tree)[key];
+  }
+  return node ?? null;
+}
+
+function writeAt(root: Tree, path: string, value: unknown): Tree {
+  const keys = segments(path);
+  if (keys.length === 0) return (clean(value) as Tree | null) ?? {};
+
+  const next = structuredClone(root);
+  let node = next;
+  for (const key of keys.slice(0, -1)) {
+    const child = node[key];
+    if (!child || typeof child !== "object") node[key] = {};
+    node = node[key] as Tree;
+  }
+  node[keys[keys.length - 1]] = structuredClone(value);
+  return (clean(next) as Tree | null) ?? {};
+}
+
+/** uid ของ tab นี้ (แต่ละ tab = ผู้เล่นคนละคน) */
+export function localUid() {
+  let uid = sessionStorage.getItem(UID_KEY);
+  if (!uid) {
+    uid = `local-${crypto.randomUUID().slice(0, 8)}`;
+    sessionStorage.setItem(UID_KEY, uid);
+  }
+  return uid;
+}
+
+export function createLocalStore(): RoomStore {
+  const listeners = new Set<() => void>();
+  let channel: BroadcastChannel | null = null;
+
+  const notify = () => listeners.forEach((l) => l());
+
+  // เปิด channel ตอนใช้ครั้งแรก (module นี้ถูก import ตอน SSR ด้วย)
+  const connect = () => {
+    if (channel || typeof window === "undefined") return;
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = notify;
+  };
+
+  const load = (): Tree => {
+    connect();
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Tree;
+  };
+
+  const save = (root: Tree) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(root));
+    channel?.postMessage("change");
+    notify();
+  };
+
+  const write = (path: string, value: unknown) =>
+    save(writeAt(load(), path, value));
+
+  return {
+    subscribe(path, cb) {
+      let last: string | undefined;
+      const fire = () => {
+        const value = readAt(load(), path);
+        const json = JSON.stringify(value);
+        if (json === last) return;
+        last = json;
+        cb(value);
+      };
+      listeners.add(fire);
+      fire();
+      return () => {
+        listeners.delete(fire);
+      };
+    },
+
+    async get(path) {
+      return readAt(load(), path);
+    },
+
+    // JS ใน tab เดียวรันทีละงาน อ่าน–เขียน localStorage ต่อกันจึงไม่มีใครแทรก
+    async transact<T>(
+      path: string,
+      fn: (current: T | null) => T | null | undefined
+    ) {
+      const root = load();
+      const current = readAt(root, path) as T | null;
+      const next = fn(current);
+      if (next === undefined) return { committed: false, value: current };
+
+      const saved = writeAt(root, path, next);
+      save(saved);
+      return { committed: true, value: readAt(saved, path) as T | null };
+    },
+
+    async set(path, value) {
+      write(path, value);
+    },
+
+    async update(path, values) {
+      let root = load();
+      for (const [key, value] of Object.entries(values))
+        root = writeAt(root, `${path}/${key}`, value);
+      save(root);
+    },
+
+    presence(path, value) {
+      write(path, { ...value, online: true, at: Date.now() });
+      const leave = () =>
+        write(path, { ...value, online: false, at: Date.now() });
+      window.addEventListener("pagehide", leave);
+      return () => window.removeEventListener("pagehide", leave);
+    },
+  };
+}
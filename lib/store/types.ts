@@ -0,0 +1,28 @@
+// lib/store/types.ts
+
+export type TransactionResult<T> = { committed: boolean; value: T | null };
+
+/**
+ * ที่เก็บข้อมูลห้องแบบ path (เหมือน Realtime Database)
+ * หน้าเว็บกับ roomService ใช้ผ่าน interface นี้อย่างเดียว จะได้สลับ backend ได้
+ */
+export interface RoomStore {
+  /** ฟังค่าที่ path — เรียก cb ทันทีครั้งแรก และทุกครั้งที่ค่าเปลี่ยน */
+  subscribe(path: string, cb: (value: unknown) => void): () => void;
+  get(path: string): Promise<unknown>;
+  /** update คืน undefined = ยกเลิก, null = ลบ */
+  transact<T>(
+    path: string,
+    update: (current: T | null) => T | null | undefined
+  ): Promise<TransactionResult<T>>;
+  set(path: string, value: unknown): Promise<void>;
+  update(path: string, values: Record<string, unknown>): Promise<void>;
+  /**
+   * สถานะออนไลน์: เขียน { ...value, online: true, at } ตอนเชื่อมต่อ
+   * และ { ...value, online: false, at } ทันทีที่หลุด (at = เวลาที่หลุด)
+   */
+  presence(path: string, value: Record<string, unknown>): () => void;
+}
+
+/** ส่วนที่ roomService ต้องใช้ (server ใช้ Admin SDK ที่ไม่มี subscribe/presence) */
+export type CommandStore = Pick<RoomStore, "get" | "transact">;
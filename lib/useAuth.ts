@@ -1,14 +1,28 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { auth } from "@/lib/firebase";
-import { onAuthStateChanged, signInAnonymously } from "firebase/auth";
+import { isLocalStore, localUid } from "@/lib/store";
+import {
+  GoogleAuthProvider,
+  linkWithPopup,
+  onAuthStateChanged,
+  signInAnonymously,
+} from "firebase/auth";
 
 export function useAuth() {
   const [uid, setUid] = useState<string | null>(null);
+  const [isAnonymous, setIsAnonymous] = useState(true);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    // โหมด local: ไม่มี Firebase Auth ใช้ uid ประจำ tab แทน
+    if (isLocalStore) {
+      setUid(localUid());
+      setLoading(false);
+      return;
+    }
+
     // ✅ กันตอน build/SSR หรือ auth ยังไม่พร้อม
     if (!auth) {
       setLoading(false);
@@ -22,6 +36,7 @@ export function useAuth() {
           return;
         }
         setUid(user.uid);
+        setIsAnonymous(user.isAnonymous);
       } finally {
         setLoading(false);
       }
@@ -30,5 +45,16 @@ export function useAuth() {
     return () => unsub();
   }, []);
 
-  return { uid, loading };
+  /**
+   * ผูกบัญชี anonymous กับ Google — uid เดิม โปรไฟล์และที่นั่งอยู่ครบ
+   * ใช้เล่นต่อข้ามเครื่องได้ (โหมด local ไม่มีให้ผูก)
+   */
+  const linkAccount = useCallback(async () => {
+    const user = auth?.currentUser;
+    if (isLocalStore || !user) return;
+    const res = await linkWithPopup(user, new GoogleAuthProvider());
+    setIsAnonymous(res.user.isAnonymous);
+  }, []);
+
+  return { uid, loading, isAnonymous, linkAccount };
 }
@@ -0,0 +1,47 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { roomStore } from "@/lib/store";
+import type { HandSort } from "@/lib/engine";
+
+export type HandOrder = { sort: HandSort; order: string[] };
+
+const DEFAULT_ORDER: HandOrder = { sort: "manual", order: [] };
+
+function normalizeHandOrder(raw: unknown): HandOrder {
+  if (!raw || typeof raw !== "object") return DEFAULT_ORDER;
+  const o = raw as Partial<HandOrder>;
+  return {
+    sort: o.sort === "suit" || o.sort === "rank" ? o.sort : "manual",
+    order: Array.isArray(o.order)
+      ? o.order.filter((id) => typeof id === "string")
+      : [],
+  };
+}
+
+/**
+ * การจัดไพ่ในมือของตัวเองในห้องนี้ เก็บที่ handOrders/{uid}/{roomId}
+ * (อ่าน/เขียนได้เฉพาะเจ้าของ — ลำดับ id บอกได้ว่าถือไพ่อะไร)
+ */
+export function useHandOrder(roomId: string, uid: string | null) {
+  const [handOrder, setHandOrder] = useState<HandOrder>(DEFAULT_ORDER);
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsub = roomStore.subscribe(`handOrders/${uid}/${roomId}`, (value) =>
+      setHandOrder(normalizeHandOrder(value))
+    );
+    return () => unsub();
+  }, [roomId, uid]);
+
+  const saveHandOrder = useCallback(
+    async (next: HandOrder) => {
+      if (!uid) return;
+      setHandOrder(next); // แสดงผลทันทีไม่ต้องรอ store
+      await roomStore.set(`handOrders/${uid}/${roomId}`, next);
+    },
+    [roomId, uid]
+  );
+
+  return { handOrder, saveHandOrder };
+}
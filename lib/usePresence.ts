@@ -0,0 +1,15 @@
+"use client";
+
+import { useEffect } from "react";
+import { roomStore } from "@/lib/store";
+
+/** บอกคนอื่นว่าเรายังอยู่ในห้อง (หลุดเมื่อไหร่ presence จะเป็น online: false) */
+export function usePresence(roomId: string, uid: string | null, name: string) {
+  useEffect(() => {
+    if (!uid) return;
+    const unsub = roomStore.presence(`rooms/${roomId}/presence/${uid}`, {
+      name,
+    });
+    return () => unsub();
+  }, [roomId, uid, name]);
+}
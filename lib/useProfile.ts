@@ -0,0 +1,32 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { roomStore } from "@/lib/store";
+import { type Profile, normalizeProfile } from "@/lib/profile";
+
+/** โปรไฟล์ของ uid นี้แบบ realtime + ฟังก์ชันบันทึก */
+export function useProfile(uid: string | null) {
+  const [raw, setRaw] = useState<unknown>(undefined); // undefined = ยังโหลดไม่เสร็จ
+
+  useEffect(() => {
+    if (!uid) return;
+    const unsub = roomStore.subscribe(`profiles/${uid}`, setRaw);
+    return () => unsub();
+  }, [uid]);
+
+  const profile = useMemo(() => normalizeProfile(raw, uid), [raw, uid]);
+
+  const saveProfile = useCallback(
+    async (patch: Partial<Profile>) => {
+      if (!uid) return;
+      const next = normalizeProfile({ ...profile, ...patch }, uid);
+      await roomStore.update(`profiles/${uid}`, {
+        ...next,
+        updatedAt: Date.now(),
+      });
+    },
+    [uid, profile]
+  );
+
+  return { profile, loaded: raw !== undefined, saveProfile };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type Toast = { id: number; message: string };
+
+/** ข้อความแจ้งเตือนแบบไม่บล็อกหน้า (แทน alert) — หายเองหลัง timeoutMs */
+export function useToasts(timeoutMs = 5000) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const showToast = useCallback(
+    (message: string) => {
+      const id = nextId.current++;
+      setToasts((prev) => [...prev, { id, message }]);
+      const t = setTimeout(() => {
+        timers.current.delete(t);
+        dismissToast(id);
+      }, timeoutMs);
+      timers.current.add(t);
+    },
+    [timeoutMs, dismissToast]
+  );
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(clearTimeout);
+  }, []);
+
+  return { toasts, showToast, dismissToast };
+}
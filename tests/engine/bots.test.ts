@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  BOT_LEVELS,
+  chooseBotMove,
+  legalMoves,
+  seededRandom,
+  toAction,
+} from "@/lib/engine";
+import { playBots, startHand } from "./hands";
+import { table } from "./table";
+
+const SEEDS = [1, 2, 3, 4, 5, 6, 7, 8];
+
+describe.each(BOT_LEVELS)("%s bot", (level) => {
+  it.each([2, 3, 4])("finishes seeded hands with %i bots", (n) => {
+    for (const seed of SEEDS) {
+      const uids = ["a", "b", "c", "d"].slice(0, n);
+      const hand = startHand(uids, seed);
+      // act โยน error ถ้า reducer ไม่รับท่าไหน
+      playBots(hand, () => false, level, seededRandom(seed));
+      expect(hand.state.phase).toBe("results");
+      expect(hand.state.endReason).not.toBeNull();
+    }
+  });
+
+  it("only picks moves from legalMoves and waits for its turn", () => {
+    const hand = startHand(["a", "b", "c"], 11);
+    const random = seededRandom(11);
+    for (let i = 0; i < 30 && hand.state.phase === "playing"; i++) {
+      const uid = hand.state.turnUid!;
+      const other = hand.state.seatUids.find((u) => u !== uid)!;
+      expect(chooseBotMove(hand.state, other, level, random)).toBeNull();
+
+      const move = chooseBotMove(hand.state, uid, level, random)!;
+      expect(legalMoves(hand.state, uid)).toContainEqual(move);
+      hand.act(toAction(move, uid, i + 1));
+    }
+  });
+});
+
+describe("random bot", () => {
+  it("plays the same hand from the same random seed", () => {
+    const play = () => {
+      const hand = startHand(["a", "b"], 3);
+      playBots(hand, () => false, "random", seededRandom(99));
+      return hand.log.entries.map((e) => e.action);
+    };
+    expect(play()).toEqual(play());
+  });
+});
+
+describe("smart bot", () => {
+  it("picks up a discard that makes a meld instead of drawing", () => {
+    const s = table({
+      hands: { a: ["H-9", "D-9", "S-2"], b: ["C-4"] },
+      discard: ["D-13", ["C-9", "b"]],
+    });
+    expect(chooseBotMove(s, "a", "smart")).toEqual({
+      type: "pickUp",
+      index: 1,
+      cardIds: ["H-9", "D-9"],
+    });
+  });
+
+  it("melds and lays off before discarding", () => {
+    const s = table({
+      hands: { a: ["H-9", "D-9", "C-9", "S-2"], b: ["C-4"] },
+      fromDiscard: ["H-9"],
+      step: "discard",
+    });
+    expect(chooseBotMove(s, "a", "smart")?.type).toBe("layMeld");
+  });
+
+  it("does not discard a card the next player can lay off", () => {
+    const s = table({
+      hands: { a: ["H-7", "C-13"], b: ["C-4"] },
+      melds: [{ ownerUid: "b", kind: "run", cards: ["H-4", "H-5", "H-6"] }],
+      step: "discard",
+    });
+    expect(chooseBotMove(s, "a", "smart")).toEqual({
+      type: "discard",
+      cardId: "C-13",
+    });
+  });
+});
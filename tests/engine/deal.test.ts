@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RULES, newRoundState } from "@/lib/engine";
+import { errorOf, ids, play } from "./table";
+
+const dealTo = (uids: string[], seed = 1, handSize: number | null = null) =>
+  play(newRoundState(uids[0], 0), {
+    type: "deal",
+    uids,
+    seed,
+    rules: { ...DEFAULT_RULES, handSize },
+    at: 0,
+  });
+
+describe("deal", () => {
+  it.each([
+    [2, 11],
+    [3, 9],
+    [4, 7],
+  ])("%i players get %i cards each", (n, size) => {
+    const uids = ["a", "b", "c", "d"].slice(0, n);
+    const s = dealTo(uids);
+    for (const uid of uids) expect(s.players[uid].hand).toHaveLength(size);
+    expect(s.discard).toHaveLength(1);
+    expect(s.headCardId).toBe(s.discard[0].id);
+    expect(s.stock).toHaveLength(52 - n * size - 1);
+    expect(s.seatUids).toEqual(uids);
+    expect(s.turnUid).toBe("a");
+  });
+
+  it("uses the room's hand size when set", () => {
+    const s = dealTo(["a", "b"], 1, 9);
+    expect(s.players.a.hand).toHaveLength(9);
+    expect(s.stock).toHaveLength(52 - 18 - 1);
+  });
+
+  it("deals the same hands from the same seed and seat order", () => {
+    const x = dealTo(["a", "b", "c"], 42);
+    const y = dealTo(["a", "b", "c"], 42);
+    expect(ids(x.players.b.hand)).toEqual(ids(y.players.b.hand));
+    expect(ids(x.stock)).toEqual(ids(y.stock));
+    expect(x.seed).toBe(42);
+    expect(ids(dealTo(["a", "b", "c"], 43).players.b.hand)).not.toEqual(
+      ids(x.players.b.hand)
+    );
+  });
+
+  it("throws when a uid holds two seats", () => {
+    expect(() => dealTo(["a", "a", "b"])).toThrow("uid ซ้ำกัน");
+  });
+
+  it("refuses to deal twice", () => {
+    const s = dealTo(["a", "b"]);
+    expect(errorOf(s, { type: "deal", uids: ["a", "b"], seed: 2, at: 1 })).toBe(
+      "แจกไพ่ไปแล้ว"
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  type Action,
+  type MeldSuggestion,
+  applyAction,
+  splitHands,
+  suggestMelds,
+} from "@/lib/engine";
+import { playBots, startHand } from "./hands";
+import { table } from "./table";
+
+describe("suggestMelds", () => {
+  const spec = {
+    hands: { a: ["H-9", "D-9", "C-9", "S-2"], b: ["C-4"] },
+    step: "discard" as const,
+  };
+
+  it("suggests a meld from the hand only with a card from the discard pile", () => {
+    const s = table(spec);
+    const melds = (fromDiscard: string[]) =>
+      suggestMelds(s.players.a.hand, s, false, fromDiscard).filter(
+        (x) => x.type === "meld"
+      );
+    expect(melds([])).toEqual([]);
+    expect(melds(["D-9"])).toEqual([
+      { type: "meld", kind: "set", cardIds: ["H-9", "D-9", "C-9"] },
+    ]);
+  });
+
+  it("every suggestion during seeded hands is a move the engine accepts", () => {
+    const toAction = (x: MeldSuggestion, uid: string): Action =>
+      x.type === "meld"
+        ? { type: "layMeld", uid, cardIds: x.cardIds, at: 0 }
+        : x.type === "pickUp"
+        ? { type: "pickUp", uid, index: x.index, cardIds: x.cardIds, at: 0 }
+        : { type: "layOff", uid, cardId: x.cardId, meldId: x.meldId, at: 0 };
+
+    let checked = 0;
+    for (let seed = 1; seed <= 20; seed++) {
+      const hand = startHand(["a", "b", "c"], seed);
+      playBots(hand, () => {
+        const s = hand.state;
+        if (s.phase !== "playing") return false;
+        const uid = s.turnUid!;
+        const me = s.players[uid];
+        // แบบที่หน้าเว็บเห็น: มือตัวเอง + id ไพ่จากกองกลางจาก path ส่วนตัว
+        const { fromDiscard } = splitHands(s);
+        const shown = suggestMelds(
+          me.hand,
+          s,
+          me.hasMelded,
+          fromDiscard[uid]
+        ).filter((x) =>
+          s.step === "draw" ? x.type === "pickUp" : x.type !== "pickUp"
+        );
+        for (const x of shown) {
+          const res = applyAction(s, toAction(x, uid));
+          expect("error" in res ? res.error : null).toBeNull();
+          checked++;
+        }
+        return false;
+      });
+    }
+    expect(checked).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,66 @@
+// tests/engine/hands.ts — เล่นทั้งตาผ่าน log แบบที่ server ทำ (เก็บแล้วอ่านกลับจาก RTDB ทุกท่า)
+import {
+  type BotLevel,
+  type GameState,
+  type HandLog,
+  type LoggedAction,
+  DEFAULT_RULES,
+  appendLog,
+  applyLogged,
+  chooseBotMove,
+  createHandLog,
+  newRoundState,
+  normalizeGame,
+  toAction,
+} from "@/lib/engine";
+
+/** เก็บแล้วอ่านกลับแบบ RTDB: key ของ players เรียงตาม uid */
+export function roundTrip(s: GameState): GameState {
+  const raw = JSON.parse(JSON.stringify(s));
+  raw.players = Object.fromEntries(
+    Object.keys(raw.players)
+      .sort()
+      .map((uid) => [uid, raw.players[uid]])
+  );
+  return normalizeGame(raw)!;
+}
+
+/** ตาที่เล่นจริง: state สด + log ที่ต่อท้ายทุกท่า */
+export function startHand(uids: string[], seed: number) {
+  let state = newRoundState(uids[0], 0);
+  let log = createHandLog(1, uids[0], 0);
+  const act = (action: LoggedAction) => {
+    const res = applyLogged(state, action);
+    if ("error" in res) throw new Error(res.error);
+    state = roundTrip(res.state);
+    log = appendLog(log, action, state);
+  };
+  act({ type: "deal", uids, seed, rules: DEFAULT_RULES, at: 0 });
+  return {
+    act,
+    get state() {
+      return state;
+    },
+    get log() {
+      return log;
+    },
+  };
+}
+
+export type Hand = ReturnType<typeof startHand>;
+
+/** ให้บอทเล่นแทนคนที่ถึงตา (หยุดเมื่อ stop คืน true หรือตาจบ) */
+export function playBots(
+  hand: Hand,
+  stop: (log: HandLog) => boolean = () => false,
+  level: BotLevel = "smart",
+  random?: () => number
+) {
+  for (let at = 1; at < 500 && hand.state.phase === "playing"; at++) {
+    const uid = hand.state.turnUid!;
+    const move = chooseBotMove(hand.state, uid, level, random);
+    if (!move) break;
+    hand.act(toAction(move, uid, at * 1000));
+    if (stop(hand.log)) break;
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { errorOf, ids, play, table } from "./table";
+
+const board = () =>
+  table({
+    hands: { a: ["S-3", "S-7", "S-8", "H-2", "D-2"], b: ["C-4"] },
+    melds: [
+      { ownerUid: "b", kind: "run", cards: ["S-4", "S-5", "S-6"] },
+      { ownerUid: "b", kind: "set", cards: ["H-9", "D-9", "C-9"] },
+    ],
+    melded: ["a"],
+    step: "discard",
+  });
+
+const layOff = (cardId: string, meldId = "meld-S-4") => ({
+  type: "layOff" as const,
+  uid: "a",
+  cardId,
+  meldId,
+  at: 1,
+});
+
+describe("layOff", () => {
+  it("extends a run at either end only", () => {
+    let s = board();
+    expect(errorOf(s, layOff("S-8"))).toBe("ฝากไพ่ใบนี้ลงกองนี้ไม่ได้");
+    s = play(s, layOff("S-3"));
+    s = play(s, layOff("S-7"));
+    s = play(s, layOff("S-8"));
+    expect(ids(s.tableMelds[0].cards)).toEqual([
+      "S-3",
+      "S-4",
+      "S-5",
+      "S-6",
+      "S-7",
+      "S-8",
+    ]);
+    expect(ids(s.players.a.hand)).toEqual(["H-2", "D-2"]);
+  });
+
+  it("adds the missing suit to a set", () => {
+    const s = board();
+    expect(errorOf(s, layOff("H-2", "meld-H-9"))).toBe(
+      "ฝากไพ่ใบนี้ลงกองนี้ไม่ได้"
+    );
+    expect(
+      errorOf(
+        table({
+          hands: { a: ["S-9", "D-2"], b: ["C-4"] },
+          melds: [{ ownerUid: "b", kind: "set", cards: ["H-9", "D-9", "C-9"] }],
+          melded: ["a"],
+          step: "discard",
+        }),
+        layOff("S-9", "meld-H-9")
+      )
+    ).toBeNull();
+  });
+
+  it("is only allowed after melding", () => {
+    const s = board();
+    s.players.a.hasMelded = false;
+    expect(errorOf(s, layOff("S-3"))).toBe("ต้องเกิดก่อนถึงจะฝากได้");
+  });
+
+  it("runs Q-K-A only when aces are high", () => {
+    const spec = {
+      hands: { a: ["S-1", "D-2"], b: ["C-4"] },
+      melds: [
+        {
+          ownerUid: "b",
+          kind: "run" as const,
+          cards: ["S-11", "S-12", "S-13"],
+        },
+      ],
+      melded: ["a"],
+      step: "discard" as const,
+    };
+    expect(errorOf(table(spec), layOff("S-1", "meld-S-11"))).not.toBeNull();
+    expect(
+      errorOf(
+        table({ ...spec, rules: { aceHigh: true } }),
+        layOff("S-1", "meld-S-11")
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMatch,
+  firstUidOfRound,
+  normalizeMatch,
+  recordRound,
+  standings,
+} from "@/lib/engine";
+import { table } from "./table";
+
+/** รอบที่จบแล้วพร้อมแต้มของแต่ละคน */
+function round(scores: Record<string, number>) {
+  const s = table({
+    hands: Object.fromEntries(Object.keys(scores).map((uid) => [uid, []])),
+  });
+  for (const [uid, score] of Object.entries(scores))
+    s.players[uid].score = score;
+  s.phase = "results";
+  return s;
+}
+
+describe("match", () => {
+  it("adds up the scores of every round", () => {
+    let m = createMatch(["a", "b", "c"], 500);
+    m = recordRound(m, round({ a: 120, b: -30, c: 40 }), 1);
+    m = recordRound(m, round({ a: -50, b: 90, c: 10 }), 2);
+    expect(m.totals).toEqual({ a: 70, b: 60, c: 50 });
+    expect(m.history).toEqual([
+      { a: 120, b: -30, c: 40 },
+      { a: -50, b: 90, c: 10 },
+    ]);
+    expect(m.round).toBe(3);
+    expect(m.finishedAt).toBeNull();
+  });
+
+  it("rotates the first player by seat each round", () => {
+    let m = createMatch(["b", "c", "a"], 10_000);
+    const firsts: (string | null)[] = [];
+    for (let i = 0; i < 4; i++) {
+      firsts.push(firstUidOfRound(m));
+      m = recordRound(m, round({ a: 0, b: 0, c: 0 }), i);
+    }
+    expect(firsts).toEqual(["b", "c", "a", "b"]);
+  });
+
+  it("ends when someone reaches the target, highest total wins", () => {
+    let m = createMatch(["a", "b"], 200);
+    m = recordRound(m, round({ a: 150, b: 100 }), 1);
+    m = recordRound(m, round({ a: 60, b: 120 }), 2);
+    expect(m.finishedAt).toBe(2);
+    expect(m.winnerUid).toBe("b");
+    expect(m.round).toBe(2);
+    expect(standings(m)).toEqual([
+      { uid: "b", total: 220 },
+      { uid: "a", total: 210 },
+    ]);
+  });
+
+  it("a tie at the target goes to the earlier seat", () => {
+    const m = recordRound(
+      createMatch(["a", "b"], 100),
+      round({ a: 100, b: 100 }),
+      1
+    );
+    expect(m.winnerUid).toBe("a");
+  });
+
+  it("restores zero totals and empty history dropped by RTDB", () => {
+    const m = normalizeMatch({
+      targetScore: 300,
+      round: 2,
+      seatUids: ["a", "b"],
+      totals: { a: 40 },
+    });
+    expect(m?.totals).toEqual({ a: 40, b: 0 });
+    expect(m?.history).toEqual([]);
+    expect(normalizeMatch(null)).toBeNull();
+  });
+});
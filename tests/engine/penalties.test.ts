@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { FEED_PENALTY, SPETO_BONUS, SPETO_FEED_PENALTY } from "@/lib/engine";
+import { play, table } from "./table";
+
+describe("feed penalties", () => {
+  it("layOffFeed: the discarder pays when the next player lays it off", () => {
+    const s = play(
+      table({
+        hands: { a: ["D-4", "D-8"], b: ["C-9"] },
+        discard: ["D-13", ["H-7", "b"]],
+        melds: [{ ownerUid: "b", kind: "run", cards: ["H-4", "H-5", "H-6"] }],
+        melded: ["a"],
+      }),
+      {
+        type: "pickUp",
+        uid: "a",
+        index: 1,
+        cardIds: [],
+        meldId: "meld-H-4",
+        at: 1,
+      }
+    );
+    expect(s.players.b.penalties).toMatchObject([
+      { reason: "layOffFeed", points: FEED_PENALTY, toUid: "a" },
+    ]);
+    expect(s.players.b.score).toBe(-FEED_PENALTY);
+  });
+
+  it("spetoFeed: the discarder pays when a speto is melded", () => {
+    const s = play(
+      table({
+        hands: { a: ["H-12", "D-12", "C-3", "C-8"], b: ["C-9"] },
+        discard: ["D-13", ["S-12", "b"]],
+      }),
+      { type: "pickUp", uid: "a", index: 1, cardIds: ["H-12", "D-12"], at: 1 }
+    );
+    expect(s.players.b.penalties).toMatchObject([
+      { reason: "spetoFeed", points: SPETO_FEED_PENALTY, toUid: "a" },
+    ]);
+    expect(s.players.a.score).toBe(30 + SPETO_BONUS);
+  });
+
+  it("knockFeed: the discarder pays when the next player knocks with it", () => {
+    const s = play(
+      table({
+        hands: { a: ["D-9", "C-9", "S-4"], b: ["C-3"] },
+        discard: ["D-13", ["H-9", "b"]],
+      }),
+      { type: "pickUp", uid: "a", index: 1, cardIds: ["D-9", "C-9"], at: 1 }
+    );
+    const done = play(s, { type: "discard", uid: "a", cardId: "S-4", at: 2 });
+    expect(done.endReason).toBe("knock");
+    expect(done.players.b.penalties).toMatchObject([
+      { reason: "knockFeed", points: FEED_PENALTY, toUid: "a" },
+    ]);
+  });
+
+  it("no penalty when the card was not on top of the pile", () => {
+    const s = play(
+      table({
+        hands: { a: ["H-12", "D-12", "C-3"], b: ["C-9"] },
+        discard: ["D-13", ["S-12", "b"], ["C-4", "b"]],
+      }),
+      { type: "pickUp", uid: "a", index: 1, cardIds: ["H-12", "D-12"], at: 1 }
+    );
+    expect(s.players.b.penalties).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { errorOf, ids, play, table } from "./table";
+
+describe("pickUp", () => {
+  const top = () =>
+    table({
+      hands: { a: ["S-6", "S-7", "D-4"], b: ["C-9"] },
+      discard: ["D-13", ["S-5", "b"]],
+    });
+
+  it("melds the picked card with cards from the hand right away", () => {
+    const s = play(top(), {
+      type: "pickUp",
+      uid: "a",
+      index: 1,
+      cardIds: ["S-6", "S-7"],
+      at: 1,
+    });
+    expect(ids(s.discard)).toEqual(["D-13"]);
+    expect(ids(s.players.a.hand)).toEqual(["D-4"]);
+    expect(ids(s.tableMelds[0].cards)).toEqual(["S-5", "S-6", "S-7"]);
+    expect(s.players.a.hasMelded).toBe(true);
+    expect(s.step).toBe("discard");
+  });
+
+  it("requires the picked card to meld", () => {
+    expect(
+      errorOf(top(), {
+        type: "pickUp",
+        uid: "a",
+        index: 1,
+        cardIds: ["S-6", "D-4"],
+        at: 1,
+      })
+    ).toBe("ไพ่ที่เก็บต้องเกิดกับไพ่ที่เลือกในมือได้ทันที");
+  });
+
+  it("can lay the picked card off only after melding", () => {
+    const spec = {
+      hands: { a: ["D-4"], b: ["C-9"] },
+      discard: ["D-13", ["S-7", "b"] as [string, string]],
+      melds: [
+        { ownerUid: "b", kind: "run" as const, cards: ["S-4", "S-5", "S-6"] },
+      ],
+    };
+    const pick = {
+      type: "pickUp" as const,
+      uid: "a",
+      index: 1,
+      cardIds: [],
+      meldId: "meld-S-4",
+      at: 1,
+    };
+    expect(errorOf(table(spec), pick)).toBe("ต้องเกิดก่อนถึงจะฝากได้");
+    const s = play(table({ ...spec, melded: ["a"] }), pick);
+    expect(ids(s.tableMelds[0].cards)).toEqual(["S-4", "S-5", "S-6", "S-7"]);
+  });
+});
+
+describe("pickUp from deeper in the pile", () => {
+  const spread = () =>
+    table({
+      hands: { a: ["S-6", "S-7", "D-4"], b: ["C-9"] },
+      discard: ["D-13", ["S-5", "b"], ["H-9", "b"], ["C-2", "b"]],
+    });
+
+  it("takes every card above the picked one into the hand", () => {
+    const s = play(spread(), {
+      type: "pickUp",
+      uid: "a",
+      index: 1,
+      cardIds: ["S-6", "S-7"],
+      at: 1,
+    });
+    expect(ids(s.discard)).toEqual(["D-13"]);
+    expect(ids(s.players.a.hand)).toEqual(["D-4", "H-9", "C-2"]);
+    expect(ids(s.tableMelds[0].cards)).toEqual(["S-5", "S-6", "S-7"]);
+  });
+
+  it("checks the picked card and the index", () => {
+    const pick = (index: number) =>
+      errorOf(spread(), {
+        type: "pickUp",
+        uid: "a",
+        index,
+        cardIds: ["S-6", "S-7"],
+        at: 1,
+      });
+    expect(pick(2)).toBe("ไพ่ที่เก็บต้องเกิดกับไพ่ที่เลือกในมือได้ทันที");
+    expect(pick(4)).toBe("ไม่มีไพ่ใบนี้ในกองกลาง");
+  });
+});
+
+describe("layMeld", () => {
+  const spec = {
+    hands: { a: ["H-9", "D-9", "C-9", "S-2"], b: ["C-4"] },
+    step: "discard" as const,
+  };
+  const meld = {
+    type: "layMeld" as const,
+    uid: "a",
+    cardIds: ["H-9", "D-9", "C-9"],
+    at: 1,
+  };
+
+  it("needs at least one card that came from the discard pile", () => {
+    expect(errorOf(table(spec), meld)).toBe(
+      "เกิดได้ต้องมีไพ่จากกองกลางอย่างน้อย 1 ใบ"
+    );
+    const s = play(table({ ...spec, fromDiscard: ["H-9"] }), meld);
+    expect(s.tableMelds[0].kind).toBe("set");
+    expect(ids(s.players.a.hand)).toEqual(["S-2"]);
+  });
+
+  it("rejects cards that are neither a set nor a run", () => {
+    expect(
+      errorOf(table({ ...spec, fromDiscard: ["H-9"] }), {
+        ...meld,
+        cardIds: ["H-9", "D-9", "S-2"],
+      })
+    ).toBe("ไพ่ที่เลือกไม่เป็นตองหรือเรียง");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { applyAction, normalizeGame } from "@/lib/engine";
+import { errorOf, play, table } from "./table";
+
+describe("turn order", () => {
+  it("follows seat order even when players come back sorted by uid", () => {
+    const s = table({
+      hands: { u0: ["C-1", "C-2"], u2: ["D-1", "D-2"], u1: ["H-1", "H-2"] },
+      step: "discard",
+    });
+    // RTDB คืน key ของ players เรียงตาม uid
+    const stored = JSON.parse(
+      JSON.stringify({
+        ...s,
+        players: { u0: s.players.u0, u1: s.players.u1, u2: s.players.u2 },
+      })
+    );
+    const next = play(normalizeGame(stored)!, {
+      type: "discard",
+      uid: "u0",
+      cardId: "C-1",
+      at: 1,
+    });
+    expect(next.turnUid).toBe("u2");
+  });
+
+  it("rejects moves out of turn or out of step", () => {
+    const s = table({ hands: { a: ["C-1"], b: ["D-1"] } });
+    expect(errorOf(s, { type: "drawStock", uid: "b", at: 1 })).toBe(
+      "ยังไม่ถึงตาคุณ"
+    );
+    expect(
+      errorOf(s, { type: "discard", uid: "a", cardId: "C-1", at: 1 })
+    ).toBe("ต้องจั่ว/เก็บก่อน");
+  });
+
+  it("does not change the state passed in", () => {
+    const s = table({ hands: { a: ["C-1"], b: ["D-1"] } });
+    const before = JSON.stringify(s);
+    applyAction(s, { type: "drawStock", uid: "a", at: 1 });
+    expect(JSON.stringify(s)).toBe(before);
+  });
+});
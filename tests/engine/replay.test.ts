@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { replayHand, replayStates } from "@/lib/engine";
+import { playBots, roundTrip, startHand } from "./hands";
+
+describe("replay", () => {
+  it.each([1, 2, 3])(
+    "rebuilds the live game of a full hand (seed %i)",
+    (seed) => {
+      // ลำดับที่นั่งไม่ตรงกับลำดับ uid
+      const hand = startHand(["u0", "u2", "u1"], seed);
+      playBots(hand);
+      expect(hand.state.phase).toBe("results");
+
+      const states = replayStates(hand.log);
+      expect(states).toHaveLength(hand.log.entries.length + 1);
+      expect(roundTrip(replayHand(hand.log))).toEqual(hand.state);
+    }
+  );
+
+  it("stops at any step of the hand", () => {
+    const hand = startHand(["a", "b"], 7);
+    playBots(hand, (log) => log.entries.length === 5);
+    const four = startHand(["a", "b"], 7);
+    playBots(four, (log) => log.entries.length === 4);
+    expect(roundTrip(replayHand(hand.log, 4))).toEqual(four.state);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { DUMMY_KNOCK_BONUS, KNOCK_BONUS, SPETO_BONUS } from "@/lib/engine";
+import { play, table } from "./table";
+
+const discard = (uid: string, cardId: string) => ({
+  type: "discard" as const,
+  uid,
+  cardId,
+  at: 1,
+});
+
+describe("end of round", () => {
+  it("knock: discarding the last card wins the knock bonus", () => {
+    const s = play(
+      table({ hands: { a: ["S-2"], b: ["H-1", "C-2"] }, step: "discard" }),
+      discard("a", "S-2")
+    );
+    expect(s.phase).toBe("results");
+    expect(s.endReason).toBe("knock");
+    expect(s.winnerUid).toBe("a");
+    expect(s.players.a.score).toBe(KNOCK_BONUS);
+    expect(s.players.b.score).toBe(-(15 + 5 + SPETO_BONUS));
+  });
+
+  it("uses the room's knock bonus", () => {
+    const s = play(
+      table({
+        hands: { a: ["S-2"], b: ["H-3"] },
+        step: "discard",
+        rules: { knockBonus: 100 },
+      }),
+      discard("a", "S-2")
+    );
+    expect(s.players.a.score).toBe(100);
+  });
+
+  it("dummy knock: the last card could have been laid off", () => {
+    const s = play(
+      table({
+        hands: { a: ["H-7"], b: ["S-3"] },
+        melds: [{ ownerUid: "b", kind: "run", cards: ["H-4", "H-5", "H-6"] }],
+        step: "discard",
+      }),
+      discard("a", "H-7")
+    );
+    expect(s.endReason).toBe("dummyKnock");
+    expect(s.players.a.score).toBe(DUMMY_KNOCK_BONUS);
+  });
+
+  it("stock out: nobody wins and everyone pays for their hand", () => {
+    const s = play(
+      table({
+        hands: { a: ["S-2", "S-3"], b: ["H-10"] },
+        stock: [],
+        step: "discard",
+      }),
+      discard("a", "S-2")
+    );
+    expect(s.endReason).toBe("stockOut");
+    expect(s.winnerUid).toBeNull();
+    expect(s.players.a.score).toBe(-5);
+    expect(s.players.b.score).toBe(-10);
+  });
+
+  it("the round keeps going while cards are left", () => {
+    const s = play(
+      table({ hands: { a: ["S-2", "S-3"], b: ["H-10"] }, step: "discard" }),
+      discard("a", "S-2")
+    );
+    expect(s.phase).toBe("playing");
+    expect(s.turnUid).toBe("b");
+  });
+});
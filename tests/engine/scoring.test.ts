@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { HEAD_BONUS, SPETO_BONUS, handValue } from "@/lib/engine";
+import { cards, ids, play, table } from "./table";
+
+describe("handValue", () => {
+  it("counts 5 / 10 / 15 and the speto bonus for cards left in hand", () => {
+    expect(handValue(cards(["S-2", "H-10", "D-1"]))).toBe(5 + 10 + 15);
+    expect(handValue(cards(["C-2", "S-12"]))).toBe(5 + 10 + 2 * SPETO_BONUS);
+    expect(handValue(cards(["C-2"]), 0)).toBe(5);
+  });
+});
+
+describe("scoring melds", () => {
+  it("scores melded and laid-off cards as they reach the table", () => {
+    let s = table({
+      hands: { a: ["H-9", "D-9", "C-9", "S-2", "C-3"], b: ["C-4"] },
+      melds: [{ ownerUid: "b", kind: "run", cards: ["C-4", "C-5", "C-6"] }],
+      fromDiscard: ["H-9"],
+      step: "discard",
+    });
+    s = play(s, {
+      type: "layMeld",
+      uid: "a",
+      cardIds: ["H-9", "D-9", "C-9"],
+      at: 1,
+    });
+    expect(s.players.a.score).toBe(15);
+    s = play(s, {
+      type: "layOff",
+      uid: "a",
+      cardId: "C-3",
+      meldId: "meld-C-4",
+      at: 2,
+    });
+    expect(s.players.a.score).toBe(20);
+  });
+
+  it("counts the speto bonus for Q♠ and 2♣ on the table", () => {
+    const s = play(
+      table({
+        hands: { a: ["H-12", "D-12", "C-3", "C-8"], b: ["C-9"] },
+        discard: ["D-13", ["S-12", "a"]],
+      }),
+      { type: "pickUp", uid: "a", index: 1, cardIds: ["H-12", "D-12"], at: 1 }
+    );
+    expect(s.players.a.score).toBe(30 + SPETO_BONUS);
+  });
+
+  it("taking the head turns up a new head and earns the head bonus", () => {
+    const s = play(
+      table({
+        hands: { a: ["H-13", "C-13", "S-2"], b: ["C-9"] },
+        discard: ["D-13", ["S-4", "b"]],
+        stock: ["C-3", "C-5"],
+      }),
+      { type: "pickUp", uid: "a", index: 0, cardIds: ["H-13", "C-13"], at: 1 }
+    );
+    expect(ids(s.discard)).toEqual(["C-5"]);
+    expect(s.headCardId).toBe("C-5");
+    expect(ids(s.stock)).toEqual(["C-3"]);
+    expect(ids(s.players.a.hand)).toEqual(["S-2", "S-4"]);
+    expect(s.players.a.score).toBe(30 + HEAD_BONUS);
+  });
+});
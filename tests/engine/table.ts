@@ -0,0 +1,83 @@
+// tests/engine/table.ts — สร้าง state ของโต๊ะจาก id ไพ่ (เช่น "S-12" = Q♠) ให้อ่านเทสต์ง่าย
+import {
+  type Action,
+  type CardT,
+  type GameState,
+  type HouseRules,
+  type Meld,
+  DEFAULT_RULES,
+  applyAction,
+  cardFromId,
+  newRoundState,
+} from "@/lib/engine";
+
+export function card(id: string): CardT {
+  const c = cardFromId(id);
+  if (!c) throw new Error(`bad card id ${id}`);
+  return c;
+}
+
+export const cards = (ids: string[]) => ids.map(card);
+
+type TableSpec = {
+  hands: Record<string, string[]>; // ลำดับ key = ลำดับที่นั่ง
+  stock?: string[]; // ใบท้ายสุด = ใบที่จั่วก่อน
+  discard?: (string | [id: string, fromUid: string])[]; // [0] = หัว
+  melds?: (Pick<Meld, "ownerUid" | "kind"> & { cards: string[] })[];
+  melded?: string[]; // uid ที่เกิดแล้ว
+  fromDiscard?: string[]; // ไพ่ในมือที่ได้มาจากกองกลาง (ใช้เกิดได้)
+  turnUid?: string;
+  step?: GameState["step"];
+  rules?: Partial<HouseRules>;
+};
+
+/** โต๊ะที่จัดไพ่เอง (ไม่ต้องพึ่ง seed) */
+export function table(spec: TableSpec): GameState {
+  const uids = Object.keys(spec.hands);
+  const s = newRoundState(spec.turnUid ?? uids[0], 0);
+  s.rules = { ...DEFAULT_RULES, ...spec.rules };
+  s.seatUids = uids;
+  for (const uid of uids)
+    s.players[uid] = {
+      name: uid,
+      hand: cards(spec.hands[uid]),
+      hasMelded: spec.melded?.includes(uid) ?? false,
+      score: 0,
+      scoredCards: [],
+      penalties: [],
+      lastTurnTookDiscardFromUid: null,
+    };
+  s.stock = cards(spec.stock ?? ["C-3", "C-4", "C-5"]);
+  s.discard = (spec.discard ?? ["D-13"]).map((x) => {
+    const [id, fromUid] = typeof x === "string" ? [x, null] : x;
+    return { ...card(id), fromUid, at: 0 };
+  });
+  s.headCardId = s.discard[0]?.id ?? null;
+  s.tableMelds = (spec.melds ?? []).map((m) => ({
+    id: `meld-${m.cards[0]}`,
+    ownerUid: m.ownerUid,
+    kind: m.kind,
+    cards: cards(m.cards),
+    createdAt: 0,
+  }));
+  for (const id of spec.fromDiscard ?? [])
+    s.cardOrigins[id] = { kind: "discard", fromUid: null };
+  s.step = spec.step ?? "draw";
+  s.turnStartedAt = 0;
+  return s;
+}
+
+/** ทำ action แล้วคืน state — error = เทสต์พัง */
+export function play(state: GameState, action: Action): GameState {
+  const res = applyAction(state, action);
+  if ("error" in res) throw new Error(res.error);
+  return res.state;
+}
+
+/** ข้อความ error ของ action (ทำได้ = null) */
+export function errorOf(state: GameState, action: Action) {
+  const res = applyAction(state, action);
+  return "error" in res ? res.error : null;
+}
+
+export const ids = (cs: CardT[]) => cs.map((c) => c.id);
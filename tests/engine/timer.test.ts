@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { autoPlayTurn, safeDiscard, turnDeadline } from "@/lib/engine";
+import { cards, ids, play, table } from "./table";
+
+const timed = (spec: Parameters<typeof table>[0]) =>
+  table({ ...spec, rules: { turnSeconds: 30, ...spec.rules } });
+
+describe("turnDeadline", () => {
+  it("is turnSeconds after the turn started, or null without a limit", () => {
+    const s = timed({ hands: { a: ["C-1"], b: ["D-1"] } });
+    s.turnStartedAt = 1000;
+    expect(turnDeadline(s)).toBe(31_000);
+    expect(
+      turnDeadline({ ...s, rules: { ...s.rules, turnSeconds: null } })
+    ).toBe(null);
+  });
+});
+
+describe("safeDiscard", () => {
+  it("picks the highest card that does not meld with the hand", () => {
+    const hand = cards(["H-9", "D-9", "C-9", "S-1", "C-13", "D-3"]);
+    expect(safeDiscard(hand)?.id).toBe("S-1");
+    // เรียง Q-K-A นับ A เป็นใบที่เกิดได้เมื่อเล่น A สูง
+    const run = cards(["S-12", "S-13", "S-1", "D-10", "C-4"]);
+    expect(safeDiscard(run)?.id).toBe("S-1");
+    expect(safeDiscard(run, true)?.id).toBe("D-10");
+  });
+
+  it("falls back to the whole hand when every card melds", () => {
+    expect(safeDiscard(cards(["H-9", "D-9", "C-9"]))?.id).toBe("H-9");
+    expect(safeDiscard([])).toBeNull();
+  });
+});
+
+describe("autoPlayTurn", () => {
+  const turn = () =>
+    timed({
+      hands: { a: ["H-9", "D-9", "C-9", "S-1"], b: ["D-4"] },
+      stock: ["C-3", "C-5"],
+    });
+
+  it("refuses before the deadline", () => {
+    expect(autoPlayTurn(turn(), 29_999)).toEqual({ error: "ยังไม่หมดเวลา" });
+    const untimed = table({ hands: { a: ["C-1"], b: ["D-1"] } });
+    expect(autoPlayTurn(untimed, 10_000_000)).toEqual({
+      error: "ยังไม่หมดเวลา",
+    });
+  });
+
+  it("draws from the stock and discards a safe card", () => {
+    const res = autoPlayTurn(turn(), 30_000);
+    if ("error" in res) throw new Error(res.error);
+    const s = res.state;
+    expect(ids(s.players.a.hand)).toEqual(["H-9", "D-9", "C-9", "C-5"]);
+    expect(ids(s.discard).at(-1)).toBe("S-1");
+    expect(ids(s.stock)).toEqual(["C-3"]);
+    expect(s.turnUid).toBe("b");
+    expect(s.step).toBe("draw");
+  });
+
+  it("only discards when the player already drew", () => {
+    const drawn = play(turn(), { type: "drawStock", uid: "a", at: 1 });
+    const res = autoPlayTurn(drawn, 30_000);
+    if ("error" in res) throw new Error(res.error);
+    expect(ids(res.state.stock)).toEqual(["C-3"]);
+    expect(ids(res.state.discard).at(-1)).toBe("S-1");
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  type HandLog,
+  UNDO_DISCARD_MS,
+  replayHand,
+  undoLast,
+  undoWindow,
+} from "@/lib/engine";
+import { playBots, roundTrip, startHand } from "./hands";
+
+describe("undo", () => {
+  it("cannot undo drawing from the stock", () => {
+    const hand = startHand(["a", "b"], 1);
+    hand.act({ type: "drawStock", uid: "a", at: 10 });
+    expect(undoWindow(hand.log)).toBeNull();
+    expect(undoLast(hand.log, "a", 11)).toEqual({ error: "ย้อนท่านี้ไม่ได้" });
+  });
+
+  it("a discard can be undone by its owner for a few seconds", () => {
+    const hand = startHand(["a", "b"], 1);
+    hand.act({ type: "drawStock", uid: "a", at: 10 });
+    const afterDraw = hand.state;
+    const cardId = afterDraw.players.a.hand[0].id;
+    hand.act({ type: "discard", uid: "a", cardId, at: 20 });
+
+    expect(undoWindow(hand.log)).toEqual({
+      uid: "a",
+      until: 20 + UNDO_DISCARD_MS,
+    });
+    expect(undoLast(hand.log, "b", 21)).toEqual({ error: "ย้อนท่านี้ไม่ได้" });
+    expect(undoLast(hand.log, "a", 21 + UNDO_DISCARD_MS)).toEqual({
+      error: "เลยเวลาย้อนการทิ้งแล้ว",
+    });
+
+    const res = undoLast(hand.log, "a", 21);
+    if ("error" in res) throw new Error(res.error);
+    expect(roundTrip(res.state)).toEqual(afterDraw);
+    // undo ต่อท้าย log และ replay ได้ state เดียวกัน
+    expect(res.log.entries.at(-1)?.action.type).toBe("undo");
+    expect(roundTrip(replayHand(res.log))).toEqual(afterDraw);
+    // ย้อนซ้ำไม่ได้ (ท่าก่อนหน้าคือจั่ว)
+    expect(undoWindow(res.log)).toBeNull();
+  });
+
+  it("melds can be undone until the next move", () => {
+    // หาตาที่มีคนเกิด/ฝาก/เก็บ แล้วลองย้อน
+    for (let seed = 1; seed < 50; seed++) {
+      const hand = startHand(["u0", "u2", "u1"], seed);
+      playBots(hand, (log) => {
+        const last = log.entries.at(-1)!.action;
+        return (
+          last.type === "layMeld" ||
+          last.type === "layOff" ||
+          (last.type === "pickUp" && last.index > 0)
+        );
+      });
+      const last = hand.log.entries.at(-1)!;
+      if (last.result.phase !== "playing" || last.action.type === "discard")
+        continue;
+      const before = roundTrip(
+        replayHand(hand.log, hand.log.entries.length - 1)
+      );
+
+      const uid = "uid" in last.action ? last.action.uid : "";
+      expect(undoWindow(hand.log)).toEqual({ uid, until: null });
+      const res = undoLast(hand.log, uid, 10_000_000);
+      if ("error" in res) throw new Error(res.error);
+      expect(roundTrip(res.state)).toEqual(before);
+      return;
+    }
+    throw new Error("no seed produced a meld");
+  });
+
+  it("refuses to write a state when the log does not replay", () => {
+    const hand = startHand(["a", "b"], 1);
+    hand.act({ type: "drawStock", uid: "a", at: 10 });
+    const cardId = hand.state.players.a.hand[0].id;
+    hand.act({ type: "discard", uid: "a", cardId, at: 20 });
+
+    // log เสีย: ท่าที่สองทำไม่ได้ (ยังไม่ถึงตา b)
+    const broken: HandLog = {
+      ...hand.log,
+      entries: hand.log.entries.map((e) =>
+        e.seq === 1
+          ? { ...e, action: { type: "drawStock", uid: "b", at: 10 } }
+          : e
+      ),
+    };
+    expect(undoLast(broken, "a", 21)).toEqual({
+      error: "ย้อนไม่ได้: log ของตานี้ไม่ครบ",
+    });
+  });
+});
@@ -0,0 +1,377 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  type CardT,
+  type GameState,
+  chooseBotMove,
+  mergeHands,
+  normalizeGame,
+  normalizeHandLog,
+  normalizeMatch,
+  replayHand,
+  seededRandom,
+  splitHands,
+} from "@/lib/engine";
+import type { RoomCommand } from "@/lib/roomApi";
+import {
+  BOT_UID_PREFIX,
+  parseCommand,
+  runRoomCommand,
+} from "@/lib/roomService";
+import type { CommandStore } from "@/lib/store";
+
+type Tree = Record<string, unknown>;
+
+/** เก็บค่าแบบ RTDB: ลบ null/array ว่าง/object ว่าง และคืน key เรียงกัน */
+function rtdb(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) {
+    const out = value.map(rtdb);
+    return out.length ? out : null;
+  }
+  if (typeof value !== "object") return value;
+  const out: Tree = {};
+  for (const k of Object.keys(value).sort()) {
+    const c = rtdb((value as Tree)[k]);
+    if (c !== null) out[k] = c;
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+function memoryStore(seed: Tree) {
+  let root = rtdb(seed) as Tree;
+  const segments = (path: string) => path.split("/").filter(Boolean);
+  const read = (path: string) =>
+    segments(path).reduce<unknown>(
+      (node, key) =>
+        node && typeof node === "object" ? (node as Tree)[key] ?? null : null,
+      root
+    );
+  const write = (path: string, value: unknown) => {
+    const next = structuredClone(root);
+    const keys = segments(path);
+    let node = next;
+    for (const key of keys.slice(0, -1)) {
+      if (!node[key] || typeof node[key] !== "object") node[key] = {};
+      node = node[key] as Tree;
+    }
+    node[keys[keys.length - 1]] = value;
+    root = (rtdb(next) as Tree | null) ?? {};
+  };
+
+  const store: CommandStore = {
+    async get(path) {
+      return structuredClone(read(path));
+    },
+    async transact<T>(
+      path: string,
+      fn: (current: T | null) => T | null | undefined
+    ) {
+      const next = fn(structuredClone(read(path)) as T | null);
+      if (next === undefined)
+        return { committed: false, value: read(path) as T | null };
+      write(path, structuredClone(next));
+      return { committed: true, value: structuredClone(read(path)) as T };
+    },
+  };
+  return { store, read };
+}
+
+/** state ของเกมหลังเก็บลง RTDB แล้วอ่านกลับ (แบบที่ roomService อ่าน) */
+function stored(state: GameState) {
+  const { game, hands } = splitHands(state);
+  return mergeHands(
+    normalizeGame(rtdb(game))!,
+    (rtdb(hands) ?? {}) as Record<string, CardT[]>
+  );
+}
+
+/** game ทั้งหมดของห้อง r1 (รวมมือทุกคน) จาก roomsPrivate */
+function liveGame(read: (path: string) => unknown) {
+  const priv = read("roomsPrivate/r1") as Tree;
+  return mergeHands(
+    normalizeGame(priv.game)!,
+    (priv.hands ?? {}) as Record<string, CardT[]>
+  );
+}
+
+describe("runRoomCommand", () => {
+  it.each([1, 2, 3])(
+    "the saved replay rebuilds the live hand (seed %i)",
+    async (seed) => {
+      const bot1 = `${BOT_UID_PREFIX}b`;
+      const bot2 = `${BOT_UID_PREFIX}a`;
+      // ลำดับที่นั่ง host → bot-b → bot-a ไม่ตรงกับลำดับ key ที่ RTDB คืน
+      const { store, read } = memoryStore({
+        rooms: {
+          r1: {
+            status: "lobby",
+            hostUid: "host",
+            slots: {
+              1: { uid: "host", name: "Host", ready: true },
+              2: { uid: bot1, name: "Bot B", ready: true, bot: "smart" },
+              3: { uid: bot2, name: "Bot A", ready: true, bot: "random" },
+            },
+          },
+        },
+      });
+      const live = () => liveGame(read);
+      // seed เดียวกันทั้งการแจก บอท และท่าของ host — ล้มแล้วรันซ้ำได้ผลเดิม
+      const random = seededRandom(seed);
+      const run = (cmd: RoomCommand) =>
+        runRoomCommand(store, "r1", "host", cmd, random);
+
+      expect(await run({ type: "start" })).toBe(null);
+      expect(live().seatUids).toEqual(["host", bot1, bot2]);
+
+      for (let i = 0; i < 200 && live().phase === "playing"; i++) {
+        const game = live();
+        expect(game.turnUid).toBe("host"); // บอทเล่นจบในคำสั่งเดียวกัน
+        const move = chooseBotMove(game, "host", "smart", random)!;
+        expect(await run(move)).toBe(null);
+      }
+
+      const final = live();
+      expect(final.phase).toBe("results");
+      const handNo = read("rooms/r1/handNo") as number;
+      const log = normalizeHandLog(read(`replays/r1/${handNo}`));
+      expect(log).not.toBeNull();
+      expect(stored(replayHand(log!))).toEqual(final);
+    }
+  );
+});
+
+describe("start", () => {
+  it("refuses a lobby where one uid holds two seats", async () => {
+    const { store, read } = memoryStore({
+      rooms: {
+        r1: {
+          status: "lobby",
+          hostUid: "a",
+          slots: {
+            1: { uid: "a", name: "A", ready: true },
+            2: { uid: "a", name: "A", ready: true },
+            3: { uid: "b", name: "B", ready: true },
+          },
+        },
+      },
+    });
+    expect(await runRoomCommand(store, "r1", "a", { type: "start" })).toBe(
+      "Start ไม่ได้: มีผู้เล่นนั่งซ้ำหลายที่"
+    );
+    expect(read("roomsPrivate/r1")).toBeNull();
+  });
+});
+
+describe("timeout", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("is rejected before the deadline and auto-plays after it", async () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    const { store, read } = memoryStore({
+      rooms: {
+        r1: {
+          status: "lobby",
+          hostUid: "a",
+          rules: { turnSeconds: 30 },
+          slots: {
+            1: { uid: "a", name: "A", ready: true },
+            2: { uid: "b", name: "B", ready: true },
+          },
+        },
+      },
+    });
+    expect(
+      await runRoomCommand(store, "r1", "a", { type: "start" }, seededRandom(4))
+    ).toBe(null);
+    const dealt = liveGame(read);
+
+    vi.setSystemTime(1_000_000 + 29_000);
+    expect(await runRoomCommand(store, "r1", "b", { type: "timeout" })).toBe(
+      "ยังไม่หมดเวลา"
+    );
+    expect(await runRoomCommand(store, "r1", "x", { type: "timeout" })).toBe(
+      "คุณไม่ได้อยู่ในเกมนี้"
+    );
+
+    vi.setSystemTime(1_000_000 + 30_000);
+    expect(await runRoomCommand(store, "r1", "b", { type: "timeout" })).toBe(
+      null
+    );
+    const next = liveGame(read);
+    expect(next.turnUid).toBe("b");
+    expect(next.stock).toHaveLength(dealt.stock.length - 1);
+    expect(next.players.a.hand).toHaveLength(dealt.players.a.hand.length);
+    expect(next.discard).toHaveLength(2);
+  });
+});
+
+describe("nextRound", () => {
+  it("records the round and lets the next seat start", async () => {
+    const { store, read } = memoryStore({
+      rooms: {
+        r1: {
+          status: "lobby",
+          hostUid: "a",
+          slots: {
+            1: { uid: "a", name: "A", ready: true },
+            2: { uid: "b", name: "B", ready: true },
+          },
+        },
+      },
+    });
+    const random = seededRandom(6);
+    const run = (uid: string, cmd: RoomCommand) =>
+      runRoomCommand(store, "r1", uid, cmd, random);
+    expect(await run("a", { type: "start" })).toBe(null);
+    for (let i = 0; i < 300 && liveGame(read).phase === "playing"; i++) {
+      const uid = liveGame(read).turnUid!;
+      const move = chooseBotMove(liveGame(read), uid, "smart", random)!;
+      expect(await run(uid, move)).toBe(null);
+    }
+    const done = liveGame(read);
+    expect(done.phase).toBe("results");
+
+    expect(await run("b", { type: "nextRound" })).toBe(null);
+    const match = normalizeMatch(read("roomsPrivate/r1/match"))!;
+    expect(match.round).toBe(2);
+    expect(match.totals).toEqual({
+      a: done.players.a.score,
+      b: done.players.b.score,
+    });
+    const next = liveGame(read);
+    expect(next.phase).toBe("playing");
+    expect(next.turnUid).toBe("b");
+  });
+});
+
+describe("host commands", () => {
+  const bot = `${BOT_UID_PREFIX}x`;
+  const lobby = (extra: Tree = {}) =>
+    memoryStore({
+      rooms: {
+        r1: {
+          status: "lobby",
+          hostUid: "host",
+          slots: {
+            1: { uid: "host", name: "Host", ready: true },
+            2: { uid: "bob", name: "Bob", ready: false },
+            4: { uid: bot, name: "Bot", ready: true, bot: "smart" },
+          },
+          ...extra,
+        },
+      },
+    });
+  const run = (store: CommandStore, uid: string, body: unknown) =>
+    runRoomCommand(store, "r1", uid, parseCommand(body)!);
+
+  it.each([
+    { type: "kick", slot: 1 },
+    { type: "setLocked", locked: true },
+    { type: "transferHost", targetUid: "bob" },
+    { type: "moveSeat", from: 1, to: 3 },
+  ])("only the host may $type", async (body) => {
+    const { store, read } = lobby();
+    const before = read("rooms/r1");
+    expect(await run(store, "bob", body)).toBe("เฉพาะเจ้าของห้องเท่านั้น");
+    expect(read("rooms/r1")).toEqual(before);
+  });
+
+  it("kicking a player frees the seat and remembers the uid", async () => {
+    const { store, read } = lobby();
+    expect(await run(store, "host", { type: "kick", slot: 2 })).toBe(null);
+    expect(read("rooms/r1/slots/2")).toBeNull();
+    expect(read("rooms/r1/kicked")).toEqual({ bob: true });
+
+    // บอทไม่ต้องจำ — host ใส่บอทใหม่ได้เสมอ
+    expect(await run(store, "host", { type: "kick", slot: 4 })).toBe(null);
+    expect(read("rooms/r1/kicked")).toEqual({ bob: true });
+
+    // ยังจำไว้หลังคำสั่งอื่นของ host
+    await run(store, "host", { type: "setLocked", locked: false });
+    await run(store, "host", { type: "moveSeat", from: 1, to: 3 });
+    expect(read("rooms/r1/kicked")).toEqual({ bob: true });
+  });
+
+  it("refuses kicks that make no sense", async () => {
+    expect(await run(lobby().store, "host", { type: "kick", slot: 1 })).toBe(
+      "เตะตัวเองไม่ได้"
+    );
+    expect(await run(lobby().store, "host", { type: "kick", slot: 3 })).toBe(
+      "ที่นั่งนี้ว่างอยู่"
+    );
+    const playing = lobby({ status: "playing" });
+    expect(await run(playing.store, "host", { type: "kick", slot: 2 })).toBe(
+      "เกมเริ่มไปแล้ว"
+    );
+  });
+
+  it("locks the room", async () => {
+    const { store, read } = lobby();
+    expect(await run(store, "host", { type: "setLocked", locked: true })).toBe(
+      null
+    );
+    expect(read("rooms/r1/locked")).toBe(true);
+  });
+
+  it("hands the host over to a seated player only", async () => {
+    const { store, read } = lobby();
+    const to = (targetUid: string) =>
+      run(store, "host", { type: "transferHost", targetUid });
+    expect(await to(bot)).toBe("ส่งต่อ host ได้เฉพาะผู้เล่นที่นั่งอยู่");
+    expect(await to("carol")).toBe("ส่งต่อ host ได้เฉพาะผู้เล่นที่นั่งอยู่");
+    expect(await to("bob")).toBe(null);
+    expect(read("rooms/r1/hostUid")).toBe("bob");
+    expect(await to("host")).toBe("เฉพาะเจ้าของห้องเท่านั้น");
+  });
+
+  it("moves a player to an empty seat or swaps two seats", async () => {
+    const { store, read } = lobby();
+    const move = (from: number, to: number) =>
+      run(store, "host", { type: "moveSeat", from, to });
+    expect(await move(2, 3)).toBe(null);
+    expect(read("rooms/r1/slots/2")).toBeNull();
+    expect(read("rooms/r1/slots/3")).toMatchObject({ uid: "bob" });
+    expect(await move(1, 3)).toBe(null);
+    expect(read("rooms/r1/slots/1")).toMatchObject({ uid: "bob" });
+    expect(read("rooms/r1/slots/3")).toMatchObject({ uid: "host" });
+    expect(await move(2, 1)).toBe("ที่นั่งนี้ว่างอยู่");
+    expect(await move(1, 1)).toBe("ที่นั่งเดิม");
+  });
+});
+
+describe("parseCommand", () => {
+  it("keeps only the known fields of a command", () => {
+    expect(parseCommand({ type: "kick", slot: 2, uid: "x" })).toEqual({
+      type: "kick",
+      slot: 2,
+    });
+    expect(
+      parseCommand({ type: "pickUp", index: 1, cardIds: ["S-1"], extra: 1 })
+    ).toEqual({ type: "pickUp", index: 1, cardIds: ["S-1"] });
+    expect(parseCommand({ type: "start", hostUid: "me" })).toEqual({
+      type: "start",
+    });
+  });
+
+  it.each([
+    null,
+    "start",
+    [],
+    {},
+    { type: "cheat" },
+    { type: "kick" },
+    { type: "kick", slot: 5 },
+    { type: "kick", slot: "1" },
+    { type: "setLocked", locked: "yes" },
+    { type: "transferHost" },
+    { type: "moveSeat", from: 1 },
+    { type: "discard", cardId: 3 },
+    { type: "layMeld", cardIds: ["S-1", 2] },
+    { type: "layOff", cardId: "S-1" },
+    { type: "pickUp", cardIds: [] },
+  ])("rejects %j", (body) => {
+    expect(parseCommand(body)).toBeNull();
+  });
+});
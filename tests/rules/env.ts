@@ -0,0 +1,29 @@
+// tests/rules/env.ts — ต่อ Database emulator ด้วย database.rules.json ของจริง
+import { readFileSync } from "node:fs";
+import {
+  type RulesTestEnvironment,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+
+export function rulesEnv() {
+  // host/port ได้จาก FIREBASE_DATABASE_EMULATOR_HOST ที่ emulators:exec ตั้งให้
+  return initializeTestEnvironment({
+    projectId: "demo-dummy",
+    database: { rules: readFileSync("database.rules.json", "utf8") },
+  });
+}
+
+/** ล้าง database แล้วใส่ข้อมูลตั้งต้นโดยไม่ผ่าน rules (แบบที่ server เขียน) */
+export async function seed(env: RulesTestEnvironment, data: object) {
+  await env.clearDatabase();
+  await env.withSecurityRulesDisabled(async (ctx) => {
+    await ctx.database().ref().set(data);
+  });
+}
+
+/** database ในนามของ uid (null = ยังไม่ login) */
+export function dbAs(env: RulesTestEnvironment, uid: string | null) {
+  return (
+    uid ? env.authenticatedContext(uid) : env.unauthenticatedContext()
+  ).database();
+}
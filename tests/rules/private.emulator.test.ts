@@ -0,0 +1,66 @@
+import {
+  type RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+} from "@firebase/rules-unit-testing";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import { card } from "../engine/table";
+import { dbAs, rulesEnv, seed } from "./env";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await rulesEnv();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await seed(env, {
+    rooms: { r1: { status: "playing", hostUid: "alice" } },
+    roomsPrivate: {
+      r1: {
+        rev: 3,
+        status: "playing",
+        game: { phase: "playing", seed: 42, turnUid: "alice" },
+        hands: {
+          alice: [card("S-12")],
+          bob: [card("C-2")],
+        },
+        fromDiscard: { alice: ["S-12"], bob: ["C-2"] },
+        log: { hand: 1, startedAt: 0 },
+      },
+    },
+  });
+});
+
+describe("roomsPrivate", () => {
+  it("a player can read only their own hand", async () => {
+    const alice = dbAs(env, "alice");
+    await assertSucceeds(alice.ref("roomsPrivate/r1/hands/alice").get());
+    await assertFails(alice.ref("roomsPrivate/r1/hands/bob").get());
+    await assertFails(dbAs(env, null).ref("roomsPrivate/r1/hands/alice").get());
+    await assertSucceeds(alice.ref("roomsPrivate/r1/fromDiscard/alice").get());
+    await assertFails(alice.ref("roomsPrivate/r1/fromDiscard/bob").get());
+  });
+
+  it("the game, log and the whole room stay with the server", async () => {
+    // แม้แต่ host ก็อ่านไม่ได้ (game มี stock และ seed)
+    const alice = dbAs(env, "alice");
+    await assertFails(alice.ref("roomsPrivate/r1/game").get());
+    await assertFails(alice.ref("roomsPrivate/r1/log").get());
+    await assertFails(alice.ref("roomsPrivate/r1/hands").get());
+    await assertFails(alice.ref("roomsPrivate/r1").get());
+  });
+
+  it("clients cannot write any of it", async () => {
+    const alice = dbAs(env, "alice");
+    await assertFails(
+      alice.ref("roomsPrivate/r1/hands/alice").set([card("S-1")])
+    );
+    await assertFails(alice.ref("roomsPrivate/r1/game/turnUid").set("alice"));
+    await assertFails(alice.ref("roomsPrivate/r2").set({ status: "lobby" }));
+  });
+});
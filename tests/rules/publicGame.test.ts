@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  type GameState,
+  normalizePublicGame,
+  toPublicGame,
+} from "@/lib/engine";
+import { playBots, startHand } from "../engine/hands";
+
+/** id ไพ่ที่ต้องไม่หลุดไปใน rooms/{roomId}/game: ไพ่ในมือทุกคนและกองจั่ว */
+const secretIds = (s: GameState) => [
+  ...Object.values(s.players).flatMap((p) => p.hand.map((c) => c.id)),
+  ...s.stock.map((c) => c.id),
+];
+
+describe("toPublicGame", () => {
+  it("leaves out hands, the stock, card origins and the seed", () => {
+    const hand = startHand(["a", "b", "c"], 5);
+    hand.act({ type: "drawStock", uid: "a", at: 1 });
+    const s = hand.state;
+    const pub = toPublicGame(s);
+    const json = JSON.stringify(pub);
+
+    expect(pub).not.toHaveProperty("stock");
+    expect(pub).not.toHaveProperty("cardOrigins");
+    expect(pub.seed).toBeNull();
+    expect(pub.stockCount).toBe(s.stock.length);
+    for (const uid of ["a", "b", "c"]) {
+      expect(pub.players[uid]).not.toHaveProperty("hand");
+      expect(pub.players[uid].handCount).toBe(s.players[uid].hand.length);
+    }
+    for (const id of secretIds(s)) expect(json).not.toContain(`"${id}"`);
+  });
+
+  it("stays hidden after the RTDB round trip", () => {
+    const s = startHand(["a", "b"], 8).state;
+    const pub = normalizePublicGame(
+      JSON.parse(JSON.stringify(toPublicGame(s)))
+    )!;
+    expect(pub.players.a.handCount).toBe(s.players.a.hand.length);
+    expect(JSON.stringify(pub)).not.toContain(`"${s.players.b.hand[0].id}"`);
+  });
+
+  it("shows the seed once the hand is over", () => {
+    const hand = startHand(["a", "b"], 5);
+    playBots(hand);
+    expect(hand.state.phase).toBe("results");
+    expect(toPublicGame(hand.state).seed).toBe(5);
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  type RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+} from "@firebase/rules-unit-testing";
+import { afterAll, beforeAll, describe, it } from "vitest";
+import { DEFAULT_RULES } from "@/lib/engine";
+import { dbAs, rulesEnv, seed } from "./env";
+
+let env: RulesTestEnvironment;
+
+beforeAll(async () => {
+  env = await rulesEnv();
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+const player = (uid: string) => ({ uid, name: uid, ready: false });
+const bot = { uid: "bot-1", name: "Bot", ready: true, bot: "smart" };
+
+/** ห้องใน lobby: host นั่ง 1, bob นั่ง 2, ช่อง 3 ว่าง, บอทนั่ง 4 */
+function lobby(extra: object = {}) {
+  return seed(env, {
+    rooms: {
+      r1: {
+        status: "lobby",
+        hostUid: "host",
+        slots: { 1: player("host"), 2: player("bob"), 4: bot },
+        ...extra,
+      },
+    },
+  });
+}
+
+const slot = (uid: string | null, n: number) =>
+  dbAs(env, uid).ref(`rooms/r1/slots/${n}`);
+
+/** ห้องใหม่แบบที่หน้าแรกเขียนตอนกด "สร้างห้อง" */
+const newRoom = (hostUid: string) => ({
+  createdAt: 1,
+  status: "lobby",
+  hostUid,
+  rules: DEFAULT_RULES,
+  game: { phase: "lobby", startedAt: null },
+});
+
+describe("room creation", () => {
+  it("a signed-in user can create a room they host", async () => {
+    await lobby();
+    await assertSucceeds(
+      dbAs(env, "alice").ref("rooms/r2").set(newRoom("alice"))
+    );
+  });
+
+  it("cannot overwrite a room that already exists", async () => {
+    await lobby();
+    await assertFails(dbAs(env, "alice").ref("rooms/r1").set(newRoom("alice")));
+    await assertFails(dbAs(env, "host").ref("rooms/r1").set(newRoom("host")));
+  });
+
+  it("hostUid must be the creator, and they must be signed in", async () => {
+    await lobby();
+    await assertFails(dbAs(env, "alice").ref("rooms/r2").set(newRoom("bob")));
+    await assertFails(dbAs(env, null).ref("rooms/r2").set(newRoom("alice")));
+  });
+});
+
+describe("slots", () => {
+  it("a signed-in user can claim an empty slot for themselves", async () => {
+    await lobby();
+    await assertSucceeds(slot("alice", 3).set(player("alice")));
+  });
+
+  it("cannot claim a slot for someone else or without signing in", async () => {
+    await lobby();
+    await assertFails(slot("alice", 3).set(player("carol")));
+    await assertFails(slot(null, 3).set(player("alice")));
+  });
+
+  it("cannot write or clear another user's slot", async () => {
+    await lobby();
+    await assertFails(slot("alice", 2).set(player("alice")));
+    await assertFails(slot("alice", 2).child("ready").set(true));
+    await assertFails(slot("alice", 2).remove());
+  });
+
+  it("the owner can update and leave their slot", async () => {
+    await lobby();
+    await assertSucceeds(slot("bob", 2).child("ready").set(true));
+    await assertFails(slot("bob", 2).child("uid").set("alice"));
+    await assertSucceeds(slot("bob", 2).remove());
+  });
+
+  it("only slots 1–4 with the known fields", async () => {
+    await lobby();
+    await assertFails(slot("alice", 5).set(player("alice")));
+    await assertFails(slot("alice", 3).set({ uid: "alice", name: "alice" }));
+    await assertFails(slot("alice", 3).set({ ...player("alice"), score: 1 }));
+  });
+
+  it("a user cannot hold two slots", async () => {
+    await lobby();
+    await assertFails(slot("bob", 3).set(player("bob")));
+    await assertFails(slot("host", 3).set(player("host")));
+  });
+
+  it("while locked only the host can claim an empty slot", async () => {
+    await lobby({ locked: true });
+    await assertFails(slot("alice", 3).set(player("alice")));
+    // คนที่นั่งอยู่แล้วยังลุกได้ และ host ย้ายไปช่องว่างได้
+    await assertSucceeds(slot("bob", 2).remove());
+    await assertSucceeds(slot("host", 1).remove());
+    await assertSucceeds(slot("host", 3).set(player("host")));
+  });
+
+  it("a kicked user cannot claim a slot again", async () => {
+    // แบบที่คำสั่ง kick เขียนไว้: ช่องของ bob ว่าง และจำ uid ไว้ใน kicked
+    await lobby({ kicked: { bob: true }, slots: { 1: player("host") } });
+    await assertFails(slot("bob", 2).set(player("bob")));
+    await assertFails(slot("bob", 3).set(player("bob")));
+    await assertSucceeds(slot("carol", 3).set(player("carol")));
+  });
+
+  it("slots are frozen once the game has started", async () => {
+    await lobby({ status: "playing" });
+    await assertFails(slot("alice", 3).set(player("alice")));
+    await assertFails(slot("bob", 2).child("ready").set(true));
+    await assertFails(slot("bob", 2).remove());
+  });
+});
+
+describe("bots", () => {
+  it("only the host can put a bot into an empty slot", async () => {
+    await lobby();
+    await assertFails(slot("alice", 3).set(bot));
+    await assertFails(slot("host", 3).set({ ...bot, bot: "cheater" }));
+    await assertSucceeds(slot("host", 3).set(bot));
+  });
+
+  it("only the host can remove a bot", async () => {
+    await lobby();
+    await assertFails(slot("alice", 4).remove());
+    await assertFails(slot("host", 4).child("bot").set("random"));
+    await assertSucceeds(slot("host", 4).remove());
+  });
+
+  it("players cannot turn their own slot into a bot", async () => {
+    await lobby();
+    await assertFails(slot("bob", 2).child("bot").set("smart"));
+    await assertFails(
+      slot("alice", 3).set({ ...player("alice"), bot: "smart" })
+    );
+  });
+});
+
+describe("server-only fields", () => {
+  it.each([
+    ["status", "playing"],
+    ["game", { phase: "playing" }],
+    ["match", { round: 1 }],
+    ["hostUid", "alice"],
+    ["locked", true],
+    ["kicked/alice", null],
+    ["handNo", 1],
+    ["undo", { uid: "host", until: null }],
+    ["moves", [{ uid: "host", type: "drawStock" }]],
+    ["rev", 9],
+  ])("even the host cannot write %s", async (path, value) => {
+    await lobby({ kicked: { alice: true } });
+    await assertFails(dbAs(env, "host").ref(`rooms/r1/${path}`).set(value));
+  });
+
+  it("the host changes house rules only in the lobby", async () => {
+    await lobby();
+    await assertSucceeds(
+      dbAs(env, "host").ref("rooms/r1/rules/aceHigh").set(true)
+    );
+    await assertFails(dbAs(env, "bob").ref("rooms/r1/rules/aceHigh").set(true));
+    await lobby({ status: "playing" });
+    await assertFails(
+      dbAs(env, "host").ref("rooms/r1/rules/aceHigh").set(true)
+    );
+  });
+});
+
+describe("presence", () => {
+  it("each user writes only their own presence", async () => {
+    await lobby();
+    const online = { online: true, at: 1 };
+    await assertSucceeds(
+      dbAs(env, "alice").ref("rooms/r1/presence/alice").set(online)
+    );
+    await assertFails(
+      dbAs(env, "alice").ref("rooms/r1/presence/bob").set(online)
+    );
+    await assertFails(
+      dbAs(env, null).ref("rooms/r1/presence/alice").set(online)
+    );
+  });
+});
@@ -0,0 +1,13 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// เทสต์ที่ไม่ต้องใช้ Firebase — เทสต์ *.emulator.test.ts ดู vitest.rules.config.ts
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  test: {
+    include: ["tests/**/*.test.ts"],
+    exclude: ["tests/**/*.emulator.test.ts"],
+  },
+});
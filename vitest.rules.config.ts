@@ -0,0 +1,12 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// เทสต์ database.rules.json กับ Database emulator — รันผ่าน `npm run test:rules`
+export default defineConfig({
+  resolve: { alias: { "@": fileURLToPath(new URL(".", import.meta.url)) } },
+  test: {
+    include: ["tests/rules/**/*.emulator.test.ts"],
+    // ทุกไฟล์ใช้ emulator ตัวเดียวกันและล้างข้อมูลก่อนแต่ละเทสต์
+    fileParallelism: false,
+  },
+});